@@ -0,0 +1,18 @@
+import { withCache, getCacheTtl } from '../utils/cache.js';
+import type { AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// Quotes are cached per aggregator, chain, token pair and amount; aggregators only quote current liquidity
+export function cachedQuote(
+  aggregator: string,
+  request: AggregatorQuoteRequest,
+  load: () => Promise<AggregatorQuote>
+): Promise<AggregatorQuote> {
+  const cacheKey = [
+    aggregator,
+    request.chainId,
+    request.fromTokenAddress.toLowerCase(),
+    request.toTokenAddress.toLowerCase(),
+    request.amount,
+  ];
+  return withCache('quotes', cacheKey, getCacheTtl('quotes'), load);
+}
@@ -0,0 +1,49 @@
+import { httpPost } from '../utils/http.js';
+import { cachedQuote } from './common.js';
+import type { Aggregator, AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// CoW Protocol order book API network names
+const COW_NETWORKS: Record<number, string> = {
+  1: 'mainnet',
+  8453: 'base',
+  42161: 'arbitrum_one',
+};
+
+// CoW Protocol quotes; orders are settled by solvers, so the user pays no gas and the
+// network fee is taken from the sell amount (already reflected in buyAmount)
+export function createCowAggregator(): Aggregator {
+  return {
+    name: 'cow',
+    supportedChains: Object.keys(COW_NETWORKS).map(Number),
+    isConfigured: () => true,
+    async quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote> {
+      const network = COW_NETWORKS[request.chainId];
+      if (!network) {
+        throw new Error(`CoW Protocol does not support chain ${request.chainId}`);
+      }
+
+      return cachedQuote('cow', request, async () => {
+        const response = await httpPost(
+          'cow',
+          `https://api.cow.fi/${network}/api/v1/quote`,
+          {
+            sellToken: request.fromTokenAddress,
+            buyToken: request.toTokenAddress,
+            from: request.taker,
+            receiver: request.taker,
+            kind: 'sell',
+            sellAmountBeforeFee: request.amount,
+          },
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+
+        return {
+          aggregator: 'cow',
+          toAmount: response.data.quote?.buyAmount || '0',
+          estimatedGas: null,
+          route: 'CoW Protocol batch auction',
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { createOneInchAggregator } from './oneinch.js';
+import { createZeroExAggregator } from './zerox.js';
+import { createParaSwapAggregator } from './paraswap.js';
+import { createCowAggregator } from './cow.js';
+import { createOdosAggregator } from './odos.js';
+import type { Aggregator } from '../types/index.js';
+
+export const AGGREGATOR_NAMES = ['1inch', '0x', 'paraswap', 'cow', 'odos'] as const;
+
+const AGGREGATORS: Record<typeof AGGREGATOR_NAMES[number], Aggregator> = {
+  '1inch': createOneInchAggregator(),
+  '0x': createZeroExAggregator(),
+  paraswap: createParaSwapAggregator(),
+  cow: createCowAggregator(),
+  odos: createOdosAggregator(),
+};
+
+export function getAggregator(name: string): Aggregator {
+  const aggregator = AGGREGATORS[name.toLowerCase() as typeof AGGREGATOR_NAMES[number]];
+  if (!aggregator) {
+    throw new Error(`Unknown aggregator "${name}". Expected one of: ${AGGREGATOR_NAMES.join(', ')}`);
+  }
+  return aggregator;
+}
+
+// Explicitly requested aggregators must be configured; otherwise use the configured ones among
+// those listed in AGGREGATORS (default: all)
+export function getAggregators(names?: string[]): Aggregator[] {
+  if (names) {
+    return names.map(name => {
+      const aggregator = getAggregator(name);
+      if (!aggregator.isConfigured()) {
+        throw new Error(`Aggregator "${aggregator.name}" is not configured (missing API key)`);
+      }
+      return aggregator;
+    });
+  }
+
+  const listed = process.env.AGGREGATORS
+    ? process.env.AGGREGATORS.split(',').map(name => name.trim()).filter(Boolean)
+    : [...AGGREGATOR_NAMES];
+  return listed.map(getAggregator).filter(aggregator => aggregator.isConfigured());
+}
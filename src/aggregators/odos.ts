@@ -0,0 +1,44 @@
+import { httpPost } from '../utils/http.js';
+import { isNativeToken } from '../utils/tokens.js';
+import { cachedQuote } from './common.js';
+import type { Aggregator, AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// Odos identifies the native token by the zero address
+const ODOS_NATIVE_TOKEN = '0x0000000000000000000000000000000000000000';
+
+function odosToken(address: string): string {
+  return isNativeToken(address) ? ODOS_NATIVE_TOKEN : address;
+}
+
+// Odos smart order router quotes; no key required
+export function createOdosAggregator(): Aggregator {
+  return {
+    name: 'odos',
+    supportedChains: [1, 10, 137, 8453, 42161],
+    isConfigured: () => true,
+    async quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote> {
+      return cachedQuote('odos', request, async () => {
+        const response = await httpPost(
+          'odos',
+          'https://api.odos.xyz/sor/quote/v2',
+          {
+            chainId: request.chainId,
+            inputTokens: [{ tokenAddress: odosToken(request.fromTokenAddress), amount: request.amount }],
+            outputTokens: [{ tokenAddress: odosToken(request.toTokenAddress), proportion: 1 }],
+            userAddr: request.taker,
+            slippageLimitPercent: 0.5,
+            compact: true,
+          },
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+
+        return {
+          aggregator: 'odos',
+          toAmount: response.data.outAmounts?.[0] || '0',
+          estimatedGas: Math.round(response.data.gasEstimate) || null,
+          route: 'Odos',
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { getOneInchQuote } from '../utils/api.js';
+import { SUPPORTED_CHAIN_IDS } from '../utils/chains.js';
+import type { Aggregator, AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// 1inch Swap API; works without ONEINCH_API_KEY at lower rate limits
+export function createOneInchAggregator(): Aggregator {
+  return {
+    name: '1inch',
+    supportedChains: SUPPORTED_CHAIN_IDS,
+    isConfigured: () => true,
+    async quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote> {
+      const quote = await getOneInchQuote(
+        request.fromTokenAddress,
+        request.toTokenAddress,
+        request.amount,
+        undefined,
+        undefined,
+        request.chainId
+      );
+      return {
+        aggregator: '1inch',
+        toAmount: quote.toAmount,
+        estimatedGas: parseInt(quote.estimatedGas) || null,
+        route: quote.protocols[0]?.[0] || '1inch Aggregated',
+      };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { httpGet } from '../utils/http.js';
+import { cachedQuote } from './common.js';
+import type { Aggregator, AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// ParaSwap (Velora) public price API; no key required
+export function createParaSwapAggregator(): Aggregator {
+  return {
+    name: 'paraswap',
+    supportedChains: [1, 10, 137, 8453, 42161],
+    isConfigured: () => true,
+    async quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote> {
+      return cachedQuote('paraswap', request, async () => {
+        const response = await httpGet('paraswap', 'https://api.paraswap.io/prices', {
+          params: {
+            srcToken: request.fromTokenAddress,
+            destToken: request.toTokenAddress,
+            srcDecimals: request.fromDecimals,
+            destDecimals: request.toDecimals,
+            amount: request.amount,
+            side: 'SELL',
+            network: request.chainId,
+            userAddress: request.taker,
+            version: '6.2',
+          },
+        });
+
+        const priceRoute = response.data.priceRoute;
+        if (!priceRoute) {
+          throw new Error(response.data.error || 'No price route returned');
+        }
+
+        const exchanges: string[] = (priceRoute.bestRoute || []).flatMap((route: any) =>
+          (route.swaps || []).flatMap((swap: any) => (swap.swapExchanges || []).map((exchange: any) => exchange.exchange))
+        );
+        return {
+          aggregator: 'paraswap',
+          toAmount: priceRoute.destAmount || '0',
+          estimatedGas: parseInt(priceRoute.gasCost) || null,
+          route: Array.from(new Set(exchanges)).join(' + ') || 'ParaSwap',
+        };
+      });
+    },
+  };
+}
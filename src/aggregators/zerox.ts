@@ -0,0 +1,41 @@
+import { httpGet } from '../utils/http.js';
+import { cachedQuote } from './common.js';
+import type { Aggregator, AggregatorQuote, AggregatorQuoteRequest } from '../types/index.js';
+
+// 0x Swap API v2 indicative prices (requires ZEROX_API_KEY)
+export function createZeroExAggregator(): Aggregator {
+  return {
+    name: '0x',
+    supportedChains: [1, 10, 137, 8453, 42161],
+    isConfigured: () => Boolean(process.env.ZEROX_API_KEY),
+    async quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote> {
+      return cachedQuote('0x', request, async () => {
+        const response = await httpGet('zerox', 'https://api.0x.org/swap/permit2/price', {
+          headers: {
+            '0x-api-key': process.env.ZEROX_API_KEY!,
+            '0x-version': 'v2',
+          },
+          params: {
+            chainId: request.chainId,
+            sellToken: request.fromTokenAddress,
+            buyToken: request.toTokenAddress,
+            sellAmount: request.amount,
+            taker: request.taker,
+          },
+        });
+
+        if (response.data.liquidityAvailable === false) {
+          throw new Error('No liquidity available');
+        }
+
+        const sources: string[] = (response.data.route?.fills || []).map((fill: any) => fill.source);
+        return {
+          aggregator: '0x',
+          toAmount: response.data.buyAmount || '0',
+          estimatedGas: parseInt(response.data.gas) || null,
+          route: Array.from(new Set(sources)).join(' + ') || '0x',
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { NATIVE_TOKEN_ADDRESS } from '../utils/tokens.js';
+
+// Chainlink USD price feeds per chain, keyed by the token they price. Wrapped native tokens share
+// the native feed, and WBTC is priced with the BTC / USD feed.
+export const CHAINLINK_USD_FEEDS: Record<number, Record<string, string>> = {
+  1: {
+    [NATIVE_TOKEN_ADDRESS]: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+    '0xdAC17F958D2ee523a2206206994597C13D831ec7': '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D',
+    '0x6B175474E89094C44Da98b954EedeAC495271d0F': '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9',
+    '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
+    '0x514910771AF9Ca656af840dff83E8264EcF986CA': '0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c',
+    '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984': '0x553303d460EE0afB37EdFf9bE42922D8FF63220e',
+  },
+  10: {
+    [NATIVE_TOKEN_ADDRESS]: '0x13e3Ee699D1909E989722E753853AE30b17e08c5',
+    '0x4200000000000000000000000000000000000006': '0x13e3Ee699D1909E989722E753853AE30b17e08c5',
+    '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85': '0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3',
+    '0x4200000000000000000000000000000000000042': '0x0D276FC14719f9292D5C1eA2198673d1f4269246',
+  },
+  137: {
+    [NATIVE_TOKEN_ADDRESS]: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0',
+    '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270': '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0',
+    '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619': '0xF9680D99D6C9589e2a93a78A04A279e509205945',
+    '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359': '0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7',
+  },
+  8453: {
+    [NATIVE_TOKEN_ADDRESS]: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    '0x4200000000000000000000000000000000000006': '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913': '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B',
+  },
+  42161: {
+    [NATIVE_TOKEN_ADDRESS]: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612',
+    '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1': '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612',
+    '0xaf88d065e77c8cC2239327C5EDb3A432268e5831': '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3',
+    '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f': '0x6ce185860a4963106506C203335A2910413708e9',
+    '0x912CE59144191C1204E64559FE8253a0e49E6548': '0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6',
+  },
+};
@@ -0,0 +1,64 @@
+import { CHAINS } from '../utils/chains.js';
+
+// Uniswap's Permit2 is deployed at the same address on every supported chain
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// Contracts deployed at the same address on every supported chain
+const SHARED_SPENDERS: Record<string, string> = {
+  [PERMIT2_ADDRESS]: 'Permit2',
+  '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD': 'Uniswap Universal Router',
+  '0x1111111254EEB25477B68fb85Ed929f73A960582': '1inch Aggregation Router v5',
+  '0x111111125421cA6dc452d289314280a0f8842A65': '1inch Aggregation Router v6',
+  '0x6A000F20005980200259B80c5102003040001068': 'ParaSwap Augustus v6.2',
+};
+
+const CHAIN_SPENDERS: Record<number, Record<string, string>> = {
+  1: {
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap SwapRouter02',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy',
+    '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57': 'ParaSwap Augustus v5',
+    '0xC92E8bdf79f0507f65a392b0ab4667716BFE0110': 'CoW Protocol Vault Relayer',
+    '0xCf5540fFFCdC3d510B18bFcA6d2b9987b0772559': 'Odos Router v2',
+  },
+  10: {
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap SwapRouter02',
+    '0xDEF1ABE32c034e558Cdd535791643C58a13aCC10': '0x Exchange Proxy',
+    '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57': 'ParaSwap Augustus v5',
+    '0xCa423977156BB05b13A2BA3b76Bc5419E2fE9680': 'Odos Router v2',
+  },
+  137: {
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap SwapRouter02',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy',
+    '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57': 'ParaSwap Augustus v5',
+    '0x4E3288c9ca110bCC82bf38F09A7b425c095d92Bf': 'Odos Router v2',
+  },
+  8453: {
+    '0x2626664c2603336E57B271c5C0b26F421741e481': 'Uniswap SwapRouter02',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy',
+    '0x59C7C832e96D2568bea6db468C1aAdcbbDa08A52': 'ParaSwap Augustus v5',
+    '0xC92E8bdf79f0507f65a392b0ab4667716BFE0110': 'CoW Protocol Vault Relayer',
+    '0x19cEeAd7105607Cd444F5ad10dd51356436095a1': 'Odos Router v2',
+  },
+  42161: {
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap SwapRouter02',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy',
+    '0xDEF171Fe48CF0115B1d80b88dc8eAB59176FEe57': 'ParaSwap Augustus v5',
+    '0xC92E8bdf79f0507f65a392b0ab4667716BFE0110': 'CoW Protocol Vault Relayer',
+    '0xa669e7A0d4b3e4Fa48af2dE86BD4CD7126Be4e13': 'Odos Router v2',
+  },
+};
+
+// DEX routers, aggregators and Permit2 a wallet typically approves in order to swap, keyed by
+// lowercase address. The Uniswap V2 router comes from the chain config.
+export function getSwapSpenders(chainId: number): Record<string, string> {
+  const spenders: Record<string, string> = {
+    ...SHARED_SPENDERS,
+    ...CHAIN_SPENDERS[chainId],
+    ...(CHAINS[chainId] ? { [CHAINS[chainId].uniswapV2Router]: 'Uniswap V2 Router' } : {}),
+  };
+  return Object.fromEntries(Object.entries(spenders).map(([address, name]) => [address.toLowerCase(), name]));
+}
@@ -0,0 +1,51 @@
+import { getChain } from '../utils/chains.js';
+import { swapKey } from '../utils/normalize.js';
+import type { SwapComparison, SwapReportBundle, SwapTransaction } from '../types/index.js';
+
+export function formatUSD(value: number | null | undefined): string {
+  if (value === null || value === undefined) return 'n/a';
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function formatNumber(value: number | null | undefined, maximumFractionDigits: number = 4): string {
+  if (value === null || value === undefined) return 'n/a';
+  return value.toLocaleString('en-US', { maximumFractionDigits });
+}
+
+export type CsvValue = string | number | null | undefined;
+
+export function escapeCsv(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function shortHash(hash: string): string {
+  return hash.length > 14 ? `${hash.slice(0, 8)}…${hash.slice(-6)}` : hash;
+}
+
+// Short hashes of the swaps a recommendation is based on, capped for readability
+export function formatEvidence(txHashes: string[], limit: number = 3): string {
+  if (txHashes.length === 0) return '—';
+  const shown = txHashes.slice(0, limit).map(shortHash).join(', ');
+  return txHashes.length > limit ? `${shown} +${txHashes.length - limit} more` : shown;
+}
+
+export function chainName(chainId: number): string {
+  try {
+    return getChain(chainId).name;
+  } catch (error) {
+    return String(chainId);
+  }
+}
+
+export function reportTitle(bundle: SwapReportBundle): string {
+  const { report } = bundle;
+  return `Swap efficiency report for ${report.ensName ? `${report.ensName} (${report.wallet})` : report.wallet}`;
+}
+
+// Pair every analyzed swap with its comparison, if it was compared
+export function joinComparisons(bundle: SwapReportBundle): { tx: SwapTransaction; comparison?: SwapComparison }[] {
+  const bySwap = new Map(bundle.comparisons.map(comparison => [swapKey(comparison.chainId, comparison.txHash, comparison.leg), comparison]));
+  return bundle.transactions.map(tx => ({ tx, comparison: bySwap.get(swapKey(tx.chain_id, tx.hash, tx.leg)) }));
+}
@@ -0,0 +1,96 @@
+import { escapeCsv, joinComparisons } from './common.js';
+import { swapKey } from '../utils/normalize.js';
+import type { CsvValue } from './common.js';
+import type { SwapReportBundle } from '../types/index.js';
+
+const CSV_COLUMNS = [
+  'hash',
+  'chain_id',
+  'block_number',
+  'timestamp',
+  'dex',
+  'hops',
+  'from_token',
+  'from_token_address',
+  'from_amount',
+  'to_token',
+  'to_token_address',
+  'to_amount',
+  'usd_value',
+  'gas_used',
+  'gas_price_gwei',
+  'native_token',
+  'gas_cost_native',
+  'gas_cost_usd',
+  'base_fee_native',
+  'priority_fee_native',
+  'slippage_bps',
+  'slippage_status',
+  'optimal_route',
+  'optimal_amount_out',
+  'counterfactual_method',
+  'counterfactual_confidence',
+  'gas_difference_native',
+  'gas_difference_usd',
+  'mev_pattern',
+  'mev_extracted_usd',
+  'base_fee_percentile',
+  'timing_savings_usd',
+  'recommendations',
+] as const;
+
+// One row per analyzed swap; comparison columns stay empty for swaps that were not compared
+export function formatCsvReport(bundle: SwapReportBundle): string {
+  const mevFindings = new Map(bundle.report.mevAnalysis.findings.map(finding => [swapKey(finding.chainId, finding.txHash, finding.leg), finding]));
+  // Ids of the recommendations each swap is evidence for
+  const recommendationIds = new Map<string, string[]>();
+  for (const recommendation of bundle.report.recommendations) {
+    for (const hash of recommendation.txHashes) {
+      recommendationIds.set(hash, [...recommendationIds.get(hash) ?? [], recommendation.id]);
+    }
+  }
+  const timingSwaps = new Map(bundle.report.gasTiming.swaps.map(swap => [swapKey(swap.chainId, swap.txHash, swap.leg), swap]));
+  const rows = joinComparisons(bundle).map(({ tx, comparison }) => {
+    const gasCost = tx.gas_cost;
+    const mev = mevFindings.get(swapKey(tx.chain_id, tx.hash, tx.leg));
+    const timing = timingSwaps.get(swapKey(tx.chain_id, tx.hash, tx.leg));
+    const values: Record<typeof CSV_COLUMNS[number], CsvValue> = {
+      hash: tx.hash,
+      chain_id: tx.chain_id,
+      block_number: tx.block_number,
+      timestamp: tx.timestamp,
+      dex: tx.dex,
+      hops: tx.hops?.length ?? 1,
+      from_token: tx.from_token,
+      from_token_address: tx.from_token_address,
+      from_amount: tx.from_amount,
+      to_token: tx.to_token,
+      to_token_address: tx.to_token_address,
+      to_amount: tx.to_amount,
+      usd_value: tx.usd_value,
+      gas_used: tx.gas_used,
+      gas_price_gwei: gasCost?.gasPriceGwei ?? tx.gas_price / 1e9,
+      native_token: gasCost?.nativeToken,
+      gas_cost_native: gasCost?.costNative,
+      gas_cost_usd: gasCost?.costUSD,
+      base_fee_native: gasCost?.baseFeeNative,
+      priority_fee_native: gasCost?.priorityFeeNative,
+      slippage_bps: comparison?.slippageBps,
+      slippage_status: comparison?.slippageStatus,
+      optimal_route: comparison?.optimalRoute,
+      optimal_amount_out: comparison?.optimalAmountOut,
+      counterfactual_method: comparison?.counterfactual.method,
+      counterfactual_confidence: comparison?.counterfactual.confidence,
+      gas_difference_native: comparison?.gasDifferenceNative,
+      gas_difference_usd: comparison?.gasDifferenceUSD,
+      mev_pattern: mev?.pattern,
+      mev_extracted_usd: mev?.extractedValueUSD,
+      base_fee_percentile: timing?.baseFeePercentile,
+      timing_savings_usd: timing?.potentialSavingsUSD,
+      recommendations: recommendationIds.get(tx.hash)?.join(';'),
+    };
+    return CSV_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,262 @@
+import { chainName, formatEvidence, formatNumber, formatUSD, reportTitle, shortHash } from './common.js';
+import type { SwapReportBundle } from '../types/index.js';
+
+interface ChartBar {
+  label: string;
+  value: number;
+}
+
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 160;
+const BAR_HEIGHT = 22;
+const BAR_GAP = 8;
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Horizontal bar chart as inline SVG; negative values extend left of the zero line
+function barChart(title: string, bars: ChartBar[], formatValue: (value: number) => string): string {
+  if (bars.length === 0) {
+    return `<figure><figcaption>${escapeHtml(title)}</figcaption><p class="muted">No data</p></figure>`;
+  }
+
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - 90;
+  const min = Math.min(0, ...bars.map(bar => bar.value));
+  const max = Math.max(0, ...bars.map(bar => bar.value));
+  const span = max - min || 1;
+  const zeroX = LABEL_WIDTH + ((0 - min) / span) * plotWidth;
+  const height = bars.length * (BAR_HEIGHT + BAR_GAP) + BAR_GAP;
+
+  const rows = bars.map((bar, index) => {
+    const y = BAR_GAP + index * (BAR_HEIGHT + BAR_GAP);
+    const width = (Math.abs(bar.value) / span) * plotWidth;
+    const x = bar.value >= 0 ? zeroX : zeroX - width;
+    const labelX = bar.value >= 0 ? x + width + 6 : zeroX + 6;
+    return [
+      `<text x="${LABEL_WIDTH - 8}" y="${y + BAR_HEIGHT * 0.7}" text-anchor="end">${escapeHtml(bar.label)}</text>`,
+      `<rect x="${x.toFixed(1)}" y="${y}" width="${Math.max(width, 1).toFixed(1)}" height="${BAR_HEIGHT}" class="${bar.value >= 0 ? 'bar' : 'bar negative'}"><title>${escapeHtml(`${bar.label}: ${formatValue(bar.value)}`)}</title></rect>`,
+      `<text x="${labelX.toFixed(1)}" y="${y + BAR_HEIGHT * 0.7}" class="value">${escapeHtml(formatValue(bar.value))}</text>`,
+    ].join('');
+  });
+
+  return `<figure><figcaption>${escapeHtml(title)}</figcaption>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${height}" width="100%" role="img" aria-label="${escapeHtml(title)}">` +
+    `<line x1="${zeroX.toFixed(1)}" y1="0" x2="${zeroX.toFixed(1)}" y2="${height}" class="axis"/>` +
+    rows.join('') +
+    '</svg></figure>';
+}
+
+function htmlTable(headers: string[], rows: (string | number)[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function card(label: string, value: string): string {
+  return `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`;
+}
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2rem auto; max-width: 1040px; padding: 0 1rem; color: #1f2933; }
+  h1 { font-size: 1.5rem; } h2 { margin-top: 2rem; border-bottom: 1px solid #e4e7eb; padding-bottom: .25rem; }
+  .muted { color: #7b8794; }
+  .cards { display: flex; flex-wrap: wrap; gap: .75rem; }
+  .card { border: 1px solid #e4e7eb; border-radius: 8px; padding: .75rem 1rem; min-width: 150px; }
+  .card .label { font-size: .8rem; color: #7b8794; } .card .value { font-size: 1.3rem; font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; font-size: .85rem; }
+  th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #e4e7eb; }
+  th { background: #f5f7fa; }
+  figure { margin: 1rem 0; } figcaption { font-weight: 600; margin-bottom: .5rem; }
+  svg text { font-size: 12px; fill: #3e4c59; } svg .value { fill: #52606d; }
+  .bar { fill: #2680c2; } .bar.negative { fill: #d64545; } .axis { stroke: #9aa5b1; }
+`;
+
+// Self-contained HTML report: inline CSS and SVG charts, no external resources
+export function formatHtmlReport(bundle: SwapReportBundle): string {
+  const { report, transactions, comparisons } = bundle;
+  const { summary, gasAnalysis, routingAnalysis, timeRange, coverage } = report;
+  const title = reportTitle(bundle);
+
+  const dexCounts = new Map<string, number>();
+  for (const tx of transactions) {
+    dexCounts.set(tx.dex, (dexCounts.get(tx.dex) ?? 0) + 1);
+  }
+
+  const charts = [
+    barChart(
+      'Gas cost by chain (USD)',
+      report.chainBreakdown.filter(chain => chain.totalSwaps > 0).map(chain => ({ label: chain.chainName, value: chain.gasSpentUSD })),
+      formatUSD
+    ),
+    barChart(
+      'Swaps by DEX',
+      Array.from(dexCounts.entries()).sort(([, a], [, b]) => b - a).map(([label, value]) => ({ label, value })),
+      value => formatNumber(value, 0)
+    ),
+    barChart(
+      'Realized slippage per compared swap (bps, positive = worse than market)',
+      comparisons.filter(comparison => comparison.slippageBps !== null).map(comparison => ({
+        label: shortHash(comparison.txHash),
+        value: comparison.slippageBps!,
+      })),
+      value => formatNumber(value, 1)
+    ),
+  ];
+
+  const comparisonTable = comparisons.length > 0
+    ? htmlTable(
+        ['Tx', 'Chain', 'Route', 'Best route', 'Amount out', 'Best amount out', 'Method (confidence)', 'Gas difference', 'Gas difference (USD)', 'Slippage (bps)'],
+        comparisons.map(comparison => [
+          comparison.txHash,
+          chainName(comparison.chainId),
+          comparison.actualRoute,
+          comparison.optimalRoute,
+          formatNumber(comparison.actualAmountOut),
+          formatNumber(comparison.optimalAmountOut),
+          `${comparison.counterfactual.method} (${comparison.counterfactual.confidence})`,
+          `${formatNumber(comparison.gasDifferenceNative, 6)} ${comparison.actualGasCost.nativeToken}`,
+          formatUSD(comparison.gasDifferenceUSD),
+          comparison.slippageBps !== null ? formatNumber(comparison.slippageBps, 2) : 'unknown',
+        ])
+      )
+    : '<p class="muted">No swaps could be compared.</p>';
+
+  const { mevAnalysis } = report;
+  const mevSection = (mevAnalysis.source
+    ? `<p>${mevAnalysis.swapsAnalyzed} swaps inspected via ${escapeHtml(mevAnalysis.source)}${mevAnalysis.swapsSkipped > 0 ? ` (${mevAnalysis.swapsSkipped} skipped)` : ''}: ${mevAnalysis.sandwiched} sandwiched, ${mevAnalysis.backrun} back-run, ${escapeHtml(formatUSD(mevAnalysis.totalExtractedUSD))} extracted.</p>`
+    : '<p class="muted">Not checked: no JSON-RPC endpoint or Dune block trades query is configured.</p>') +
+    (mevAnalysis.findings.length > 0
+      ? htmlTable(
+          ['Tx', 'Pattern', 'Front-run', 'Back-run', 'Searcher', 'Extracted', 'Extracted (USD)'],
+          mevAnalysis.findings.map(finding => [
+            finding.txHash,
+            finding.pattern,
+            finding.frontRunTx ?? '',
+            finding.backRunTx,
+            finding.searcher ?? 'unknown',
+            finding.extractedAmount !== null ? `${formatNumber(finding.extractedAmount, 6)} ${finding.extractedToken}` : 'n/a',
+            formatUSD(finding.extractedValueUSD),
+          ])
+        )
+      : '');
+
+  const { gasTiming } = report;
+  const timingSection = (gasTiming.source
+    ? `<p>${gasTiming.swapsAnalyzed} swaps compared with the base fees in their hour${gasTiming.swapsSkipped > 0 ? ` (${gasTiming.swapsSkipped} skipped)` : ''}: average base fee percentile ${gasTiming.averageBaseFeePercentile !== null ? formatNumber(gasTiming.averageBaseFeePercentile, 1) : 'n/a'}, ${escapeHtml(formatUSD(gasTiming.potentialSavingsUSD))} saveable by waiting up to ${gasTiming.windowHours} hours${gasTiming.savingsPercentage !== null ? ` (${formatNumber(gasTiming.savingsPercentage, 2)}% of their gas)` : ''}.</p>`
+    : '<p class="muted">Base fees not checked: no JSON-RPC endpoint is configured.</p>') +
+    (gasTiming.buckets.length > 0
+      ? htmlTable(
+          ['Hour of week', 'Swaps', 'Avg gas price (gwei)', 'Avg base fee (gwei)', 'Base fee percentile', 'Saveable (USD)'],
+          gasTiming.buckets.map(bucket => [
+            bucket.slot,
+            bucket.swaps,
+            formatNumber(bucket.averageGasPriceGwei),
+            bucket.averageBaseFeeGwei !== null ? formatNumber(bucket.averageBaseFeeGwei) : 'n/a',
+            bucket.averageBaseFeePercentile !== null ? formatNumber(bucket.averageBaseFeePercentile, 1) : 'n/a',
+            formatUSD(bucket.potentialSavingsUSD),
+          ])
+        )
+      : '') +
+    (gasTiming.advice.length > 0 ? `<ul>${gasTiming.advice.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '');
+
+  const { gasOverhead } = report;
+  const { allowances } = gasOverhead;
+  const overheadSection = (gasOverhead.source
+    ? `<p>${gasOverhead.failedSwaps} failed swaps (${escapeHtml(formatUSD(gasOverhead.failedSwapGasUSD))}), ${gasOverhead.approvals} approvals and ${gasOverhead.permit2Approvals} Permit2 approvals (${escapeHtml(formatUSD(gasOverhead.approvalGasUSD))}), ${gasOverhead.permit2Permits} Permit2 permits.</p>`
+    : '<p class="muted">Not checked: the swap data source does not report failed transactions or approvals.</p>') +
+    (!allowances
+      ? '<p class="muted">Allowances not checked: no JSON-RPC endpoint is configured.</p>'
+      : allowances.outstanding.length === 0
+        ? `<p>No open allowances among ${allowances.pairsChecked} token/spender pairs checked.</p>`
+        : htmlTable(
+            ['Chain', 'Token', 'Spender', 'Via', 'Allowance', 'Expires'],
+            allowances.outstanding.map(allowance => [
+              chainName(allowance.chainId),
+              allowance.token,
+              `${allowance.spenderName} (${allowance.spender})`,
+              allowance.mechanism,
+              allowance.unlimited ? 'unlimited' : allowance.amount !== null ? formatNumber(allowance.amount) : 'unknown',
+              allowance.expiresAt ?? 'never',
+            ])
+          ));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Generated ${escapeHtml(report.reportGeneratedAt)} · ${escapeHtml(report.chainIds.map(chainName).join(', '))} · ${escapeHtml(timeRange.from)} → ${escapeHtml(timeRange.to)}</p>
+<p class="muted">${coverage.transactionsAnalyzed} swaps analyzed, ${coverage.transactionsCompared} compared with 1inch${coverage.historyTruncated ? ' (history truncated by the limit)' : ''}</p>
+<div class="cards">
+${card('Efficiency score', `${summary.efficiencyScore}/100`)}
+${card('Total swaps', String(summary.totalSwaps))}
+${card('Volume', formatUSD(summary.totalVolumeUSD))}
+${card('Gas cost', formatUSD(gasAnalysis.totalGasCostUSD))}
+${card('Potential gas savings', formatUSD(gasAnalysis.potentialSavingsUSD))}
+${card('Failed swaps & approvals', formatUSD(gasAnalysis.overheadGasCostUSD))}
+${card('Most used DEX', summary.mostUsedDEX)}
+${card('MEV extracted', formatUSD(report.mevAnalysis.totalExtractedUSD))}
+</div>
+<h2>Efficiency score</h2>
+<p>Profile <strong>${escapeHtml(report.scoreBreakdown.profile)}</strong>${report.scoreBreakdown.description ? ` (${escapeHtml(report.scoreBreakdown.description)})` : ''}: ${report.scoreBreakdown.baseScore} base points adjusted to ${report.scoreBreakdown.score}/100.</p>
+${report.scoreBreakdown.factors.length > 0 ? htmlTable(
+  ['Factor', 'Value', 'Points', 'Explanation'],
+  report.scoreBreakdown.factors.map(factor => [
+    factor.name,
+    factor.value !== null ? `${formatNumber(factor.value, 2)} ${factor.unit}` : 'n/a',
+    formatNumber(factor.points, 2),
+    factor.explanation,
+  ])
+) : ''}
+<h2>Charts</h2>
+${charts.join('\n')}
+<h2>Chains</h2>
+${htmlTable(
+  ['Chain', 'Swaps', 'Volume', 'Gas', 'Gas (USD)', 'Most used DEX'],
+  report.chainBreakdown.map(chain => [
+    chain.chainName,
+    chain.totalSwaps,
+    formatUSD(chain.totalVolumeUSD),
+    `${formatNumber(chain.gasSpentNative, 6)} ${chain.nativeToken}`,
+    formatUSD(chain.gasSpentUSD),
+    chain.mostUsedDEX,
+  ])
+)}
+<h2>MEV</h2>
+${mevSection}
+<h2>Gas timing</h2>
+${timingSection}
+<h2>Failed swaps and approvals</h2>
+${overheadSection}
+<h2>Routing</h2>
+<p>${routingAnalysis.optimalRoutes} optimal and ${routingAnalysis.suboptimalRoutes} suboptimal routes.</p>
+<ul>${routingAnalysis.missedOpportunities.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>
+<h2>Detailed comparisons</h2>
+${comparisonTable}
+<h2>Recommendations</h2>
+${htmlTable(
+  ['Severity', 'Category', 'Recommendation', 'Est. impact', 'Swaps', 'Rule'],
+  report.recommendations.map(item => [
+    item.severity,
+    item.category,
+    item.message,
+    formatUSD(item.estimatedImpactUSD),
+    formatEvidence(item.txHashes),
+    item.id,
+  ])
+)}
+</body>
+</html>
+`;
+}
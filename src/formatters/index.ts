@@ -0,0 +1,21 @@
+import { formatMarkdownReport } from './markdown.js';
+import { formatCsvReport } from './csv.js';
+import { formatHtmlReport } from './html.js';
+import type { FormattedReport, ReportFormat, SwapReportBundle } from '../types/index.js';
+
+export const REPORT_FORMATS = ['json', 'markdown', 'csv', 'html'] as const;
+
+export function formatReport(bundle: SwapReportBundle, format: ReportFormat = 'json'): FormattedReport {
+  switch (format) {
+    case 'json':
+      return { format, mimeType: 'application/json', text: JSON.stringify(bundle.report, null, 2) };
+    case 'markdown':
+      return { format, mimeType: 'text/markdown', text: formatMarkdownReport(bundle) };
+    case 'csv':
+      return { format, mimeType: 'text/csv', text: formatCsvReport(bundle) };
+    case 'html':
+      return { format, mimeType: 'text/html', text: formatHtmlReport(bundle) };
+    default:
+      throw new Error(`Unknown report format "${format}". Expected one of: ${REPORT_FORMATS.join(', ')}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { chainName, escapeCsv } from './common.js';
+import type { CsvValue } from './common.js';
+import type { PnlReport } from '../types/index.js';
+
+const LEDGER_COLUMNS = [
+  'description',
+  'token',
+  'token_address',
+  'chain',
+  'quantity',
+  'date_acquired',
+  'date_sold',
+  'proceeds_usd',
+  'cost_basis_usd',
+  'gain_usd',
+  'holding_period_days',
+  'term',
+  'acquisition_tx',
+  'disposal_tx',
+] as const;
+
+// One row per disposed lot, laid out like a capital gains schedule.
+// Lots with an unknown acquisition are dated "VARIOUS" and left without a cost basis.
+export function formatLedgerCsv(report: PnlReport): string {
+  const rows = report.ledger.map(entry => {
+    const values: Record<typeof LEDGER_COLUMNS[number], CsvValue> = {
+      description: `${entry.quantity} ${entry.token}`,
+      token: entry.token,
+      token_address: entry.tokenAddress,
+      chain: chainName(entry.chainId),
+      quantity: entry.quantity,
+      date_acquired: entry.acquiredAt ? entry.acquiredAt.slice(0, 10) : 'VARIOUS',
+      date_sold: entry.disposedAt.slice(0, 10),
+      proceeds_usd: entry.proceedsUSD,
+      cost_basis_usd: entry.costBasisUSD,
+      gain_usd: entry.gainUSD,
+      holding_period_days: entry.holdingPeriodDays,
+      term: entry.term,
+      acquisition_tx: entry.acquisitionTx,
+      disposal_tx: entry.disposalTx,
+    };
+    return LEDGER_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+  });
+
+  return [LEDGER_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
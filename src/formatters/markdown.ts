@@ -0,0 +1,171 @@
+import { chainName, formatEvidence, formatNumber, formatUSD, reportTitle, shortHash } from './common.js';
+import type { SwapReportBundle } from '../types/index.js';
+
+function cell(value: string | number): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function table(headers: string[], rows: (string | number)[][]): string {
+  return [
+    `| ${headers.map(cell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+// Human-readable summary with tables of the per-chain breakdown and detailed comparisons
+export function formatMarkdownReport(bundle: SwapReportBundle): string {
+  const { report, comparisons } = bundle;
+  const { summary, gasAnalysis, routingAnalysis, timeRange, coverage } = report;
+  const sections: string[] = [];
+
+  sections.push(`# ${reportTitle(bundle)}`);
+  sections.push([
+    `- **Generated:** ${report.reportGeneratedAt}`,
+    `- **Chains:** ${report.chainIds.map(chainName).join(', ')}`,
+    `- **Window:** ${timeRange.from} → ${timeRange.to}${timeRange.fromBlock !== undefined || timeRange.toBlock !== undefined ? ` (blocks ${timeRange.fromBlock ?? '…'}–${timeRange.toBlock ?? '…'})` : ''}`,
+    `- **Coverage:** ${coverage.transactionsAnalyzed} swaps analyzed, ${coverage.transactionsCompared} compared with 1inch${coverage.historyTruncated ? ' (history truncated by the limit)' : ''}`,
+  ].join('\n'));
+
+  sections.push('## Summary\n\n' + table(['Metric', 'Value'], [
+    ['Efficiency score', `${summary.efficiencyScore}/100`],
+    ['Total swaps', summary.totalSwaps],
+    ['Total volume', formatUSD(summary.totalVolumeUSD)],
+    ['Most used DEX', summary.mostUsedDEX],
+    ['Average gas used', formatNumber(summary.averageGasUsed, 0)],
+  ]));
+
+  const { scoreBreakdown } = report;
+  sections.push(`## Efficiency score\n\nProfile **${scoreBreakdown.profile}**${scoreBreakdown.description ? ` (${scoreBreakdown.description})` : ''}: ${scoreBreakdown.baseScore} base points adjusted to ${scoreBreakdown.score}/100.` +
+    (scoreBreakdown.factors.length > 0 ? '\n\n' + table(
+      ['Factor', 'Value', 'Points', 'Explanation'],
+      scoreBreakdown.factors.map(factor => [
+        factor.name,
+        factor.value !== null ? `${formatNumber(factor.value, 2)} ${factor.unit}` : 'n/a',
+        formatNumber(factor.points, 2),
+        factor.explanation,
+      ])
+    ) : ''));
+
+  const gasRows: (string | number)[][] = [
+    ['Total gas cost', formatUSD(gasAnalysis.totalGasCostUSD)],
+    ['Potential savings', `${formatUSD(gasAnalysis.potentialSavingsUSD)} (${gasAnalysis.savingsPercentage}%)`],
+    ['Average gas price', `${gasAnalysis.averageGasPriceGwei} gwei`],
+  ];
+  if (gasAnalysis.baseFeeUSD !== null && gasAnalysis.priorityFeeUSD !== null) {
+    gasRows.push(['Base fee / priority tip', `${formatUSD(gasAnalysis.baseFeeUSD)} / ${formatUSD(gasAnalysis.priorityFeeUSD)}`]);
+  }
+  for (const total of gasAnalysis.nativeTotals) {
+    gasRows.push([`Gas paid in ${total.nativeToken}`, `${formatNumber(total.totalCost, 6)} ${total.nativeToken} over ${total.transactions} swaps`]);
+  }
+  const { gasOverhead } = report;
+  if (gasOverhead.source) {
+    gasRows.push(['Failed swaps', `${gasOverhead.failedSwaps} (${formatUSD(gasAnalysis.failedSwapGasUSD)})`]);
+    gasRows.push(['Approvals', `${gasOverhead.approvals + gasOverhead.permit2Approvals} (${formatUSD(gasAnalysis.approvalGasUSD)})`]);
+    gasRows.push(['Total incl. failures and approvals', formatUSD(gasAnalysis.totalGasCostWithOverheadUSD)]);
+  }
+  sections.push('## Gas\n\n' + table(['Metric', 'Value'], gasRows));
+
+  if (report.chainBreakdown.length > 0) {
+    sections.push('## Chains\n\n' + table(
+      ['Chain', 'Swaps', 'Volume', 'Gas', 'Gas (USD)', 'Most used DEX'],
+      report.chainBreakdown.map(chain => [
+        chain.chainName,
+        chain.totalSwaps,
+        formatUSD(chain.totalVolumeUSD),
+        `${formatNumber(chain.gasSpentNative, 6)} ${chain.nativeToken}`,
+        formatUSD(chain.gasSpentUSD),
+        chain.mostUsedDEX,
+      ])
+    ));
+  }
+
+  const { mevAnalysis } = report;
+  const mevSummary = mevAnalysis.source
+    ? `${mevAnalysis.swapsAnalyzed} swaps inspected via ${mevAnalysis.source}${mevAnalysis.swapsSkipped > 0 ? ` (${mevAnalysis.swapsSkipped} skipped)` : ''}: ${mevAnalysis.sandwiched} sandwiched, ${mevAnalysis.backrun} back-run, ${formatUSD(mevAnalysis.totalExtractedUSD)} extracted.`
+    : 'Not checked: no JSON-RPC endpoint or Dune block trades query is configured.';
+  sections.push('## MEV\n\n' + mevSummary + (mevAnalysis.findings.length > 0 ? '\n\n' + table(
+    ['Tx', 'Pattern', 'Front-run', 'Back-run', 'Searcher', 'Extracted', 'Extracted (USD)'],
+    mevAnalysis.findings.map(finding => [
+      shortHash(finding.txHash),
+      finding.pattern,
+      finding.frontRunTx ? shortHash(finding.frontRunTx) : '',
+      shortHash(finding.backRunTx),
+      finding.searcher ? shortHash(finding.searcher) : 'unknown',
+      finding.extractedAmount !== null ? `${formatNumber(finding.extractedAmount, 6)} ${finding.extractedToken}` : 'n/a',
+      formatUSD(finding.extractedValueUSD),
+    ])
+  ) : ''));
+
+  const { gasTiming } = report;
+  const timingSummary = gasTiming.source
+    ? `${gasTiming.swapsAnalyzed} swaps compared with the base fees in their hour${gasTiming.swapsSkipped > 0 ? ` (${gasTiming.swapsSkipped} skipped)` : ''}: average base fee percentile ${gasTiming.averageBaseFeePercentile !== null ? formatNumber(gasTiming.averageBaseFeePercentile, 1) : 'n/a'}, ${formatUSD(gasTiming.potentialSavingsUSD)} saveable by waiting up to ${gasTiming.windowHours} hours${gasTiming.savingsPercentage !== null ? ` (${formatNumber(gasTiming.savingsPercentage, 2)}% of their gas)` : ''}.`
+    : 'Base fees not checked: no JSON-RPC endpoint is configured.';
+  sections.push('## Gas timing\n\n' + timingSummary + (gasTiming.buckets.length > 0 ? '\n\n' + table(
+    ['Hour of week', 'Swaps', 'Avg gas price (gwei)', 'Avg base fee (gwei)', 'Base fee percentile', 'Saveable (USD)'],
+    gasTiming.buckets.map(bucket => [
+      bucket.slot,
+      bucket.swaps,
+      formatNumber(bucket.averageGasPriceGwei),
+      bucket.averageBaseFeeGwei !== null ? formatNumber(bucket.averageBaseFeeGwei) : 'n/a',
+      bucket.averageBaseFeePercentile !== null ? formatNumber(bucket.averageBaseFeePercentile, 1) : 'n/a',
+      formatUSD(bucket.potentialSavingsUSD),
+    ])
+  ) : '') + (gasTiming.advice.length > 0 ? '\n\n' + gasTiming.advice.map(item => `- ${item}`).join('\n') : ''));
+
+  const overheadSummary = gasOverhead.source
+    ? `${gasOverhead.failedSwaps} failed swaps (${formatUSD(gasOverhead.failedSwapGasUSD)}), ${gasOverhead.approvals} approvals and ${gasOverhead.permit2Approvals} Permit2 approvals (${formatUSD(gasOverhead.approvalGasUSD)}), ${gasOverhead.permit2Permits} Permit2 permits.`
+    : 'Not checked: the swap data source does not report failed transactions or approvals.';
+  const { allowances } = gasOverhead;
+  const allowanceSummary = !allowances
+    ? 'Allowances not checked: no JSON-RPC endpoint is configured.'
+    : allowances.outstanding.length === 0
+      ? `No open allowances among ${allowances.pairsChecked} token/spender pairs checked.`
+      : table(
+        ['Chain', 'Token', 'Spender', 'Via', 'Allowance', 'Expires'],
+        allowances.outstanding.map(allowance => [
+          chainName(allowance.chainId),
+          allowance.token,
+          `${allowance.spenderName} (${shortHash(allowance.spender)})`,
+          allowance.mechanism,
+          allowance.unlimited ? 'unlimited' : allowance.amount !== null ? formatNumber(allowance.amount) : 'unknown',
+          allowance.expiresAt ?? 'never',
+        ])
+      );
+  sections.push('## Failed swaps and approvals\n\n' + overheadSummary + '\n\n' + allowanceSummary);
+
+  sections.push(`## Routing\n\n${routingAnalysis.optimalRoutes} optimal and ${routingAnalysis.suboptimalRoutes} suboptimal routes.\n\n` +
+    routingAnalysis.missedOpportunities.map(item => `- ${item}`).join('\n'));
+
+  if (comparisons.length > 0) {
+    sections.push('## Detailed comparisons\n\n' + table(
+      ['Tx', 'Chain', 'Route', 'Best route', 'Amount out', 'Best amount out', 'Method (confidence)', 'Gas difference', 'Gas difference (USD)', 'Slippage (bps)'],
+      comparisons.map(comparison => [
+        shortHash(comparison.txHash),
+        chainName(comparison.chainId),
+        comparison.actualRoute,
+        comparison.optimalRoute,
+        formatNumber(comparison.actualAmountOut),
+        formatNumber(comparison.optimalAmountOut),
+        `${comparison.counterfactual.method} (${comparison.counterfactual.confidence})`,
+        `${formatNumber(comparison.gasDifferenceNative, 6)} ${comparison.actualGasCost.nativeToken}`,
+        formatUSD(comparison.gasDifferenceUSD),
+        comparison.slippageBps !== null ? formatNumber(comparison.slippageBps, 2) : 'unknown',
+      ])
+    ));
+  }
+
+  sections.push('## Recommendations\n\n' + table(
+    ['Severity', 'Category', 'Recommendation', 'Est. impact', 'Swaps', 'Rule'],
+    report.recommendations.map(item => [
+      item.severity,
+      item.category,
+      item.message,
+      formatUSD(item.estimatedImpactUSD),
+      formatEvidence(item.txHashes),
+      item.id,
+    ])
+  ));
+
+  return sections.join('\n\n') + '\n';
+}
@@ -4,18 +4,94 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import dotenv from 'dotenv';
-import { getUserTransactions, compareWithOneInch, generateSwapReport } from './tools/index.js';
+import { getUserTransactions, compareWithOneInch, compareWithAggregators, buildSwapReport, generatePortfolioReport, calculatePnl, getGasTiming, getGasOverhead, watchWallet, unwatchWallet, manageCache } from './tools/index.js';
+import { formatReport, REPORT_FORMATS } from './formatters/index.js';
+import { formatLedgerCsv } from './formatters/ledger.js';
+import { AGGREGATOR_NAMES } from './aggregators/index.js';
+import { RECOMMENDATION_RULE_IDS } from './recommendations/index.js';
+import { getWalletGroup } from './utils/config.js';
+import { SUPPORTED_CHAIN_IDS } from './utils/chains.js';
+import {
+  validateToolArguments,
+  validateWalletInput,
+  resolveWalletInput,
+  rangeFromArguments,
+  ValidationError,
+} from './utils/validation.js';
+import {
+  RESOURCE_TEMPLATES,
+  canonicalizeResourceUri,
+  listWalletResources,
+  readWalletResource,
+  recordReport,
+  onReportRecorded,
+} from './resources/index.js';
+import { listPrompts, getPrompt } from './prompts/index.js';
+import { onWatchAlert, startWatchPolling } from './watch/index.js';
+import { LOCAL_CLIENT_ID } from './watch/store.js';
+import { startHttpTransport } from './transports/http.js';
 
 // Load environment variables
 dotenv.config();
 
+const chainIdProperty = {
+  type: ['number', 'array'],
+  items: { type: 'number' },
+  description: `Chain ID or list of chain IDs to analyze (default: 1). Supported: ${SUPPORTED_CHAIN_IDS.join(', ')}`,
+};
+
+const rangeProperties = {
+  from: {
+    type: 'string',
+    description: 'Only include swaps at or after this ISO 8601 date or date-time',
+  },
+  to: {
+    type: 'string',
+    description: 'Only include swaps at or before this ISO 8601 date or date-time (a bare date includes the whole day)',
+  },
+  fromBlock: {
+    type: 'number',
+    description: 'Only include swaps at or after this block (single chain only)',
+  },
+  toBlock: {
+    type: 'number',
+    description: 'Only include swaps at or before this block (single chain only)',
+  },
+};
+
+const recommendationRuleProperties = {
+  enabledRules: {
+    type: 'array',
+    items: { type: 'string', enum: [...RECOMMENDATION_RULE_IDS] },
+    description: 'Recommendation rules to run even if the config file disables them',
+  },
+  disabledRules: {
+    type: 'array',
+    items: { type: 'string', enum: [...RECOMMENDATION_RULE_IDS] },
+    description: 'Recommendation rules to skip for this call (takes precedence over enabledRules)',
+  },
+};
+
 class DefiAnalyzerServer {
   private server: Server;
+  private resourceSubscriptions = new Set<string>();
+  private disposeReportListener?: () => void;
+  private disposeWatchListener?: () => void;
 
-  constructor() {
+  // clientId identifies who is connected (the HTTP transport's authenticated client, or the local
+  // stdio user) and scopes the watches this session can see and the alerts it receives
+  constructor(private clientId: string = LOCAL_CLIENT_ID) {
     this.server = new Server(
       {
         name: 'defi-analyzer',
@@ -24,18 +100,23 @@ class DefiAnalyzerServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+          logging: {},
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.setupLoggingHandlers();
     
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
   }
 
   private setupToolHandlers() {
@@ -44,19 +125,21 @@ class DefiAnalyzerServer {
       tools: [
         {
           name: 'get_user_transactions',
-          description: 'Get recent swap transactions for a wallet address from Dune Analytics',
+          description: 'Get recent swap transactions for a wallet address from the configured data source (Dune, JSON-RPC or file)',
           inputSchema: {
             type: 'object',
             properties: {
               walletAddress: {
                 type: 'string',
-                description: 'Ethereum wallet address to analyze',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
               },
+              chainId: chainIdProperty,
               limit: {
                 type: 'number',
-                description: 'Number of recent transactions to fetch (default: 10)',
+                description: 'Number of recent transactions to fetch, paging through the data source as needed (default: 10, max: 10000)',
                 default: 10,
               },
+              ...rangeProperties,
             },
             required: ['walletAddress'],
           },
@@ -69,8 +152,40 @@ class DefiAnalyzerServer {
             properties: {
               walletAddress: {
                 type: 'string',
-                description: 'Ethereum wallet address to analyze',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
+              },
+              chainId: chainIdProperty,
+              limit: {
+                type: 'number',
+                description: 'Number of most recent swaps to compare (default: 10, max: 1000)',
+              },
+              ...recommendationRuleProperties,
+              ...rangeProperties,
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'compare_with_aggregators',
+          description: 'Quote each historical swap on several DEX aggregators (1inch, 0x, ParaSwap, CoW Protocol, Odos) and report which would have returned the most and how far the quotes spread. Quotes reflect current liquidity, not the liquidity at the time of the swap',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
               },
+              chainId: chainIdProperty,
+              limit: {
+                type: 'number',
+                description: 'Number of most recent swaps to compare (default: 10, max: 1000)',
+              },
+              aggregators: {
+                type: 'array',
+                items: { type: 'string', enum: [...AGGREGATOR_NAMES] },
+                description: 'Aggregators to quote (default: every configured aggregator; 0x requires ZEROX_API_KEY)',
+              },
+              ...rangeProperties,
             },
             required: ['walletAddress'],
           },
@@ -83,12 +198,191 @@ class DefiAnalyzerServer {
             properties: {
               walletAddress: {
                 type: 'string',
-                description: 'Ethereum wallet address to analyze',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
+              },
+              chainId: chainIdProperty,
+              limit: {
+                type: 'number',
+                description: 'Maximum number of swaps to analyze (default: 50, max: 10000)',
+              },
+              comparisonLimit: {
+                type: 'number',
+                description: 'Number of most recent swaps to compare against 1inch (default: 10, max: 1000)',
+              },
+              format: {
+                type: 'string',
+                enum: [...REPORT_FORMATS],
+                description: 'json: the report data; markdown: readable summary with comparison tables; csv: one row per swap; html: standalone report with charts, returned as an embedded resource (default: json)',
+                default: 'json',
+              },
+              scoringProfile: {
+                type: 'string',
+                description: 'Efficiency scoring profile defined under scoring.profiles in the config file (default: scoring.defaultProfile, or the built-in "default" profile)',
+              },
+              ...recommendationRuleProperties,
+              ...rangeProperties,
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'generate_portfolio_report',
+          description: 'Generate an aggregated swap report across several wallets, excluding internal transfers and round-trips between them from trading volume',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddresses: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Wallet addresses or ENS names to analyze together',
+              },
+              group: {
+                type: 'string',
+                description: 'Name of a wallet group defined under walletGroups in the config file (use instead of walletAddresses)',
+              },
+              chainId: chainIdProperty,
+              limit: {
+                type: 'number',
+                description: 'Maximum number of swaps to analyze per wallet (default: 50, max: 10000)',
+              },
+              ...rangeProperties,
+            },
+          },
+        },
+        {
+          name: 'calculate_pnl',
+          description: 'Calculate realized and unrealized profit and loss from swap history, treating each swap as a disposal of the sold token and an acquisition of the bought token',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
+              },
+              chainId: chainIdProperty,
+              method: {
+                type: 'string',
+                enum: ['fifo', 'lifo', 'average'],
+                description: 'Cost-basis method used to match disposals against earlier acquisitions (default: fifo)',
+                default: 'fifo',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of swaps to include; tokens acquired before the earliest included swap have an unknown cost basis (default: 1000, max: 10000)',
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'csv'],
+                description: 'json: totals, per-token gains, open positions and the lot ledger; csv: the per-lot ledger for tax preparation (default: json)',
+                default: 'json',
+              },
+              ...rangeProperties,
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'analyze_gas_timing',
+          description: "Bucket a wallet's swaps by hour of the week, compare the base fee each paid with the chain's base fees in the same hour, and estimate what waiting for the cheapest hour would have saved",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
+              },
+              chainId: chainIdProperty,
+              windowHours: {
+                type: 'number',
+                description: 'How many hours after each swap to search for the cheapest hour (default: 6, max: 48)',
+                default: 6,
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of recent swaps to analyze (default: 100, max: 1000)',
+              },
+              ...rangeProperties,
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'analyze_gas_overhead',
+          description: 'Find gas spent on reverted swap attempts, token approvals and Permit2, and list the unlimited allowances still open to DEX routers and aggregators',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to analyze',
+              },
+              chainId: chainIdProperty,
+              limit: {
+                type: 'number',
+                description: 'Maximum number of recent failed swaps and approvals to include (default: 100, max: 1000)',
+              },
+              ...rangeProperties,
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'watch_wallet',
+          description: 'Watch a wallet for new swaps: each new swap is compared with 1inch and a warning log message is sent when it loses more than minLossUSD or slips more than maxSlippageBps. Watching an already watched wallet updates its chains and thresholds. Watches persist across restarts and are private to the client that registered them',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to watch',
+              },
+              chainId: chainIdProperty,
+              minLossUSD: {
+                type: 'number',
+                description: 'Alert when a swap\'s estimated loss versus the best route, including extra gas, reaches this many USD (default from the config file, 25)',
+              },
+              maxSlippageBps: {
+                type: 'number',
+                description: 'Alert when a swap\'s slippage versus the market reaches this many basis points (default from the config file, 100)',
               },
             },
             required: ['walletAddress'],
           },
         },
+        {
+          name: 'unwatch_wallet',
+          description: 'Stop watching a wallet this client registered with watch_wallet',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              walletAddress: {
+                type: 'string',
+                description: 'Wallet address (EIP-55 checksummed or lowercase hex) or ENS name to stop watching',
+              },
+            },
+            required: ['walletAddress'],
+          },
+        },
+        {
+          name: 'manage_cache',
+          description: 'Inspect or clear the on-disk cache of swap data, 1inch quotes and token prices',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: ['stats', 'clear', 'prune'],
+                description: 'stats: show entry counts and sizes; clear: remove all entries; prune: remove expired entries (default: stats)',
+                default: 'stats',
+              },
+              namespace: {
+                type: 'string',
+                enum: ['swaps', 'quotes', 'prices'],
+                description: 'Limit the action to one cache namespace (default: all)',
+              },
+            },
+          },
+        },
       ],
     }));
 
@@ -99,9 +393,13 @@ class DefiAnalyzerServer {
 
         switch (name) {
           case 'get_user_transactions':
+            const transactionArgs = validateToolArguments(name, args);
+            const transactionWallet = await resolveWalletInput(transactionArgs.walletAddress);
             const transactions = await getUserTransactions(
-              args.walletAddress,
-              args.limit || 10
+              transactionWallet.address,
+              transactionArgs.limit,
+              transactionArgs.chainId,
+              rangeFromArguments(transactionArgs)
             );
             return {
               content: [
@@ -109,6 +407,8 @@ class DefiAnalyzerServer {
                   type: 'text',
                   text: JSON.stringify({
                     success: true,
+                    wallet: transactionWallet.address,
+                    ensName: transactionWallet.ensName,
                     data: transactions,
                     message: `Found ${transactions.length} recent swap transactions`,
                   }, null, 2),
@@ -117,7 +417,13 @@ class DefiAnalyzerServer {
             };
 
           case 'compare_with_1inch':
-            const comparison = await compareWithOneInch(args.walletAddress);
+            const comparisonArgs = validateToolArguments(name, args);
+            const comparisonWallet = await resolveWalletInput(comparisonArgs.walletAddress);
+            const comparison = await compareWithOneInch(comparisonWallet.address, comparisonArgs.chainId, {
+              range: rangeFromArguments(comparisonArgs),
+              limit: comparisonArgs.limit,
+              recommendations: { enabledRules: comparisonArgs.enabledRules, disabledRules: comparisonArgs.disabledRules },
+            });
             return {
               content: [
                 {
@@ -127,13 +433,181 @@ class DefiAnalyzerServer {
               ],
             };
 
+          case 'compare_with_aggregators':
+            const aggregatorArgs = validateToolArguments(name, args);
+            const aggregatorWallet = await resolveWalletInput(aggregatorArgs.walletAddress);
+            const aggregatorComparison = await compareWithAggregators(aggregatorWallet.address, aggregatorArgs.chainId, {
+              range: rangeFromArguments(aggregatorArgs),
+              limit: aggregatorArgs.limit,
+              aggregators: aggregatorArgs.aggregators,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(aggregatorComparison, null, 2),
+                },
+              ],
+            };
+
           case 'generate_swap_report':
-            const report = await generateSwapReport(args.walletAddress);
+            const reportArgs = validateToolArguments(name, args);
+            const reportWallet = await resolveWalletInput(reportArgs.walletAddress);
+            const reportBundle = await buildSwapReport(reportWallet.address, reportArgs.chainId, {
+              ensName: reportWallet.ensName,
+              range: rangeFromArguments(reportArgs),
+              limit: reportArgs.limit,
+              comparisonLimit: reportArgs.comparisonLimit,
+              scoringProfile: reportArgs.scoringProfile,
+              recommendations: { enabledRules: reportArgs.enabledRules, disabledRules: reportArgs.disabledRules },
+            });
+            const reportUri = recordReport(reportBundle.report);
+            const formattedReport = formatReport(reportBundle, reportArgs.format);
+
+            // HTML is returned as an embedded resource so clients can save it as a file
+            if (formattedReport.format === 'html') {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: `Swap report for ${reportBundle.report.wallet} rendered as HTML (${reportBundle.report.summary.totalSwaps} swaps, efficiency score ${reportBundle.report.summary.efficiencyScore}/100)`,
+                  },
+                  {
+                    type: 'resource',
+                    resource: {
+                      uri: `${reportUri}?format=${formattedReport.format}`,
+                      mimeType: formattedReport.mimeType,
+                      text: formattedReport.text,
+                    },
+                  },
+                ],
+              };
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: formattedReport.text,
+                },
+              ],
+            };
+
+          case 'generate_portfolio_report':
+            const portfolioArgs = validateToolArguments(name, args);
+            const portfolioGroup = portfolioArgs.group;
+            const portfolioInputs = portfolioGroup
+              ? getWalletGroup(portfolioGroup).map((wallet, index) =>
+                  validateWalletInput(wallet, `walletGroups.${portfolioGroup}[${index}]`)
+                )
+              : portfolioArgs.walletAddresses ?? [];
+            const portfolioWallets = await Promise.all(portfolioInputs.map(resolveWalletInput));
+            const portfolio = await generatePortfolioReport(portfolioWallets, portfolioArgs.chainId, {
+              group: portfolioGroup,
+              range: rangeFromArguments(portfolioArgs),
+              limit: portfolioArgs.limit,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(portfolio, null, 2),
+                },
+              ],
+            };
+
+          case 'calculate_pnl':
+            const pnlArgs = validateToolArguments(name, args);
+            const pnlWallet = await resolveWalletInput(pnlArgs.walletAddress);
+            const pnl = await calculatePnl(pnlWallet.address, pnlArgs.chainId, {
+              ensName: pnlWallet.ensName,
+              method: pnlArgs.method,
+              range: rangeFromArguments(pnlArgs),
+              limit: pnlArgs.limit,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: pnlArgs.format === 'csv' ? formatLedgerCsv(pnl) : JSON.stringify(pnl, null, 2),
+                },
+              ],
+            };
+
+          case 'analyze_gas_timing':
+            const timingArgs = validateToolArguments(name, args);
+            const timingWallet = await resolveWalletInput(timingArgs.walletAddress);
+            const timing = await getGasTiming(timingWallet.address, timingArgs.chainId, {
+              ensName: timingWallet.ensName,
+              range: rangeFromArguments(timingArgs),
+              limit: timingArgs.limit,
+              windowHours: timingArgs.windowHours,
+            });
             return {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify(report, null, 2),
+                  text: JSON.stringify(timing, null, 2),
+                },
+              ],
+            };
+
+          case 'analyze_gas_overhead':
+            const overheadArgs = validateToolArguments(name, args);
+            const overheadWallet = await resolveWalletInput(overheadArgs.walletAddress);
+            const overhead = await getGasOverhead(overheadWallet.address, overheadArgs.chainId, {
+              ensName: overheadWallet.ensName,
+              range: rangeFromArguments(overheadArgs),
+              limit: overheadArgs.limit,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(overhead, null, 2),
+                },
+              ],
+            };
+
+          case 'watch_wallet':
+            const watchArgs = validateToolArguments(name, args);
+            const watchTarget = await resolveWalletInput(watchArgs.walletAddress);
+            const watchResult = await watchWallet(watchTarget.address, watchArgs.chainId, {
+              clientId: this.clientId,
+              ensName: watchTarget.ensName,
+              minLossUSD: watchArgs.minLossUSD,
+              maxSlippageBps: watchArgs.maxSlippageBps,
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(watchResult, null, 2),
+                },
+              ],
+            };
+
+          case 'unwatch_wallet':
+            const unwatchArgs = validateToolArguments(name, args);
+            const unwatchTarget = await resolveWalletInput(unwatchArgs.walletAddress);
+            const unwatchResult = await unwatchWallet(unwatchTarget.address, this.clientId);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(unwatchResult, null, 2),
+                },
+              ],
+            };
+
+          case 'manage_cache':
+            const cacheArgs = validateToolArguments(name, args);
+            const cacheReport = await manageCache(cacheArgs.action, cacheArgs.namespace);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(cacheReport, null, 2),
                 },
               ],
             };
@@ -150,6 +624,8 @@ class DefiAnalyzerServer {
               text: JSON.stringify({
                 success: false,
                 error: errorMessage,
+                errorType: error instanceof Error ? error.name : 'Error',
+                issues: error instanceof ValidationError ? error.issues : undefined,
                 message: 'An error occurred while processing your request',
               }, null, 2),
             },
@@ -159,16 +635,109 @@ class DefiAnalyzerServer {
     });
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listWalletResources(),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      readWalletResource(request.params.uri)
+    );
+
+    // Subscriptions are stored in canonical form so `defi://ethereum/wallet/vitalik.eth/...` matches `defi://1/wallet/0xd8da.../...`
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.add(await canonicalizeResourceUri(request.params.uri));
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(await canonicalizeResourceUri(request.params.uri));
+      return {};
+    });
+
+    // Notify clients whenever a fresh report is generated
+    this.disposeReportListener = onReportRecorded(async (uri, isNew) => {
+      try {
+        if (isNew) {
+          await this.server.sendResourceListChanged();
+        }
+        if (this.resourceSubscriptions.has(uri)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        console.error('[MCP Error] Failed to send resource notification:', error);
+      }
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts(),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(request.params.name, request.params.arguments)
+    );
+  }
+
+  private setupLoggingHandlers() {
+    // Alerts for watched wallets go, as warnings, to the sessions of the client that owns the watch.
+    // The SDK answers logging/setLevel itself and drops messages below the level the session asked for.
+    this.disposeWatchListener = onWatchAlert(async (alert, clientId) => {
+      if (clientId !== this.clientId) return;
+      try {
+        await this.server.sendLoggingMessage({ level: 'warning', logger: 'defi-analyzer.watch', data: alert }, this.server.transport?.sessionId);
+      } catch (error) {
+        console.error('[MCP Error] Failed to send watch alert:', error);
+      }
+    });
+  }
+
+  async connect(transport: Transport) {
     await this.server.connect(transport);
-    console.error('DeFi Analyzer MCP Server started 🚀');
   }
+
+  async close() {
+    this.disposeReportListener?.();
+    this.disposeWatchListener?.();
+    await this.server.close();
+  }
+}
+
+// Start the server on the transport selected by MCP_TRANSPORT (stdio or http)
+async function main() {
+  const transportType = (process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+
+  if (transportType === 'http' || transportType === 'sse') {
+    // Every SSE session gets its own server instance sharing the same caches and API keys
+    const httpServer = await startHttpTransport(clientId => new DefiAnalyzerServer(clientId));
+    startWatchPolling();
+    process.on('SIGINT', () => {
+      httpServer.close();
+      process.exit(0);
+    });
+    return;
+  }
+
+  if (transportType !== 'stdio') {
+    throw new Error(`Unknown MCP_TRANSPORT "${transportType}". Expected stdio or http`);
+  }
+
+  const server = new DefiAnalyzerServer();
+  process.on('SIGINT', async () => {
+    await server.close();
+    process.exit(0);
+  });
+  await server.connect(new StdioServerTransport());
+  startWatchPolling();
+  console.error('DeFi Analyzer MCP Server started 🚀');
 }
 
-// Start the server
-const server = new DefiAnalyzerServer();
-server.run().catch((error) => {
+main().catch((error) => {
   console.error('Server error:', error);
   process.exit(1);
 });
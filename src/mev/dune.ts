@@ -0,0 +1,29 @@
+import { getDuneBlockTrades } from '../utils/api.js';
+import type { BlockSwapProvider, PoolSwap, SwapTransaction } from '../types/index.js';
+
+// Every DEX trade in the swap's block from Dune, narrowed to the pools the swap traded on
+export function createDuneBlockSwapProvider(): BlockSwapProvider {
+  return {
+    name: 'dune',
+    async fetchBlockSwaps(tx: SwapTransaction): Promise<PoolSwap[]> {
+      if (tx.block_number === undefined) {
+        throw new Error(`Block number of ${tx.hash} is unknown`);
+      }
+
+      const swaps: PoolSwap[] = (await getDuneBlockTrades(tx.chain_id, tx.block_number)).map(row => ({
+        txHash: row.tx_hash.toLowerCase(),
+        txIndex: row.tx_index !== undefined && row.tx_index !== null ? parseInt(String(row.tx_index)) : undefined,
+        logIndex: parseInt(String(row.evt_index)),
+        pool: row.project_contract_address.toLowerCase(),
+        sender: row.tx_from?.toLowerCase(),
+        tokenIn: row.token_sold_address.toLowerCase(),
+        tokenOut: row.token_bought_address.toLowerCase(),
+        amountIn: parseFloat(row.token_sold_amount || '0'),
+        amountOut: parseFloat(row.token_bought_amount || '0'),
+      }));
+
+      const pools = new Set(swaps.filter(swap => swap.txHash === tx.hash.toLowerCase()).map(swap => swap.pool));
+      return swaps.filter(swap => pools.has(swap.pool));
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { createRpcBlockSwapProvider } from './rpc.js';
+import { createDuneBlockSwapProvider } from './dune.js';
+import { getRpcUrl } from '../utils/rpc.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import type { BlockSwapProvider, MevAnalysis, MevFinding, MevPattern, PoolSwap, SwapTransaction } from '../types/index.js';
+
+export const MEV_DATA_SOURCES = ['rpc', 'dune'] as const;
+
+const MEV_CONCURRENCY = 4;
+
+const providers = new Map<string, BlockSwapProvider>();
+
+// MEV_DATA_SOURCE selects the backend; by default the chain's JSON-RPC endpoint is used when
+// configured, then Dune when the block trades query is set up. Undefined means no backend is available.
+export function getBlockSwapProvider(chainId: number): BlockSwapProvider | undefined {
+  const configured = process.env.MEV_DATA_SOURCE?.toLowerCase();
+  const name = configured
+    || (getRpcUrl(chainId) ? 'rpc' : undefined)
+    || (process.env.DUNE_API_KEY && process.env.DUNE_BLOCK_TRADES_QUERY_ID ? 'dune' : undefined);
+  if (!name) return undefined;
+
+  if (!providers.has(name)) {
+    switch (name) {
+      case 'rpc':
+        providers.set(name, createRpcBlockSwapProvider());
+        break;
+      case 'dune':
+        providers.set(name, createDuneBlockSwapProvider());
+        break;
+      default:
+        throw new Error(`Unknown MEV data source "${name}". Expected one of: ${MEV_DATA_SOURCES.join(', ')}`);
+    }
+  }
+  return providers.get(name);
+}
+
+// USD price of one unit of a token the wallet's swap sold or bought, implied by the swap's USD value
+function impliedUnitPriceUSD(tx: SwapTransaction, token: string): number | null {
+  if (!tx.usd_value || tx.usd_value <= 0) return null;
+  if (token === tx.from_token_address.toLowerCase() && tx.from_amount > 0) return tx.usd_value / tx.from_amount;
+  if (token === tx.to_token_address.toLowerCase() && tx.to_amount > 0) return tx.usd_value / tx.to_amount;
+  return null;
+}
+
+function tokenLabel(tx: SwapTransaction, token: string): string {
+  if (token === tx.from_token_address.toLowerCase()) return tx.from_token;
+  if (token === tx.to_token_address.toLowerCase()) return tx.to_token;
+  return token;
+}
+
+// A sandwich is a swap in the same direction just before the wallet's swap and a swap in the
+// opposite direction after it, both sent by the same account. The searcher's profit (what the
+// back-run returned minus what the front-run spent, before gas) estimates the value extracted.
+// Without a front-run, an opposite swap directly after the wallet's swap in the same pool is a back-run.
+export function detectMev(tx: SwapTransaction, blockSwaps: PoolSwap[]): MevFinding[] {
+  const hash = tx.hash.toLowerCase();
+  const findings: MevFinding[] = [];
+
+  for (const own of blockSwaps.filter(swap => swap.txHash === hash)) {
+    const others = blockSwaps.filter(swap => swap.pool === own.pool && swap.txHash !== hash);
+    const before = others
+      .filter(swap => swap.logIndex < own.logIndex && swap.tokenIn === own.tokenIn && swap.tokenOut === own.tokenOut)
+      .sort((a, b) => b.logIndex - a.logIndex);
+    const after = others
+      .filter(swap => swap.logIndex > own.logIndex)
+      .sort((a, b) => a.logIndex - b.logIndex);
+    const base = { txHash: tx.hash, chainId: tx.chain_id, leg: tx.leg, blockNumber: tx.block_number ?? 0, pool: own.pool };
+
+    let sandwich: { front: PoolSwap; back: PoolSwap } | undefined;
+    for (const back of after.filter(swap => swap.tokenIn === own.tokenOut && swap.tokenOut === own.tokenIn)) {
+      const front = before.find(swap => swap.sender !== undefined && swap.sender === back.sender);
+      if (front) {
+        sandwich = { front, back };
+        break;
+      }
+    }
+
+    if (sandwich) {
+      const extractedAmount = Math.max(0, sandwich.back.amountOut - sandwich.front.amountIn);
+      const unitPrice = impliedUnitPriceUSD(tx, own.tokenIn);
+      findings.push({
+        ...base,
+        pattern: 'sandwich',
+        frontRunTx: sandwich.front.txHash,
+        backRunTx: sandwich.back.txHash,
+        searcher: sandwich.back.sender,
+        extractedAmount,
+        extractedToken: tokenLabel(tx, own.tokenIn),
+        extractedValueUSD: unitPrice !== null ? Math.round(extractedAmount * unitPrice * 100) / 100 : null,
+      });
+      continue;
+    }
+
+    const next = after[0];
+    const adjacent = next && (own.txIndex === undefined || next.txIndex === undefined || next.txIndex === own.txIndex + 1);
+    if (next && adjacent && next.tokenIn === own.tokenOut && next.tokenOut === own.tokenIn) {
+      findings.push({
+        ...base,
+        pattern: 'backrun',
+        backRunTx: next.txHash,
+        searcher: next.sender,
+        extractedAmount: null,
+        extractedToken: null,
+        extractedValueUSD: null,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Inspect the swaps sharing a block and pool with each of the wallet's swaps. Swaps that cannot be
+// inspected (no backend for the chain, lookup failures) are counted as skipped rather than failing the analysis.
+export async function analyzeMev(transactions: SwapTransaction[]): Promise<MevAnalysis> {
+  const sources = new Set<string>();
+
+  const results = await mapWithConcurrency(transactions, MEV_CONCURRENCY, async tx => {
+    try {
+      const provider = getBlockSwapProvider(tx.chain_id);
+      if (!provider) return null;
+      sources.add(provider.name);
+      return detectMev(tx, await provider.fetchBlockSwaps(tx));
+    } catch (error) {
+      console.error(`Error analyzing MEV for transaction ${tx.hash}:`, error);
+      return null;
+    }
+  });
+
+  const findings = results.flatMap(result => result ?? []);
+  const victims = (pattern: MevPattern) => new Set(findings.filter(finding => finding.pattern === pattern).map(finding => finding.txHash)).size;
+
+  // Each sandwiched leg of a transaction reports the searcher's whole extraction, so count every
+  // front-run/back-run pair once
+  const extracted = new Map<string, number>();
+  for (const finding of findings) {
+    const attack = `${finding.chainId}:${finding.frontRunTx ?? ''}:${finding.backRunTx ?? ''}`;
+    if (finding.extractedValueUSD !== null && !extracted.has(attack)) extracted.set(attack, finding.extractedValueUSD);
+  }
+
+  return {
+    source: sources.size > 0 ? Array.from(sources).join(', ') : null,
+    swapsAnalyzed: results.filter(result => result !== null).length,
+    swapsSkipped: results.filter(result => result === null).length,
+    sandwiched: victims('sandwich'),
+    backrun: victims('backrun'),
+    totalExtractedUSD: Math.round(Array.from(extracted.values()).reduce((sum, value) => sum + value, 0) * 100) / 100,
+    findings,
+  };
+}
@@ -0,0 +1,76 @@
+import { rpcCall } from '../utils/rpc.js';
+import { resolveToken, fromBaseUnits } from '../utils/tokens.js';
+import { BALANCER_V2_SWAP, BALANCER_V2_VAULT, POOL_SWAP_TOPICS, decodeSwapLog, getLogs } from '../sources/rpc.js';
+import type { RpcLog } from '../sources/rpc.js';
+import type { BlockSwapProvider, PoolSwap, SwapTransaction } from '../types/index.js';
+
+// Balancer swaps all come from the Vault, so the pool is identified by its pool id topic
+function poolOf(log: RpcLog): string {
+  return log.topics[0]?.toLowerCase() === BALANCER_V2_SWAP ? log.topics[1].toLowerCase() : log.address.toLowerCase();
+}
+
+// Reads the swap's receipt to find the pools it traded on, then every swap on those pools in the same block
+export function createRpcBlockSwapProvider(): BlockSwapProvider {
+  return {
+    name: 'rpc',
+    async fetchBlockSwaps(tx: SwapTransaction): Promise<PoolSwap[]> {
+      const chainId = tx.chain_id;
+      const receipt = await rpcCall<any>(chainId, 'eth_getTransactionReceipt', [tx.hash]);
+      if (!receipt) {
+        throw new Error(`Transaction ${tx.hash} not found`);
+      }
+
+      const swapLogs = (receipt.logs as RpcLog[]).filter(log => {
+        const topic = log.topics[0]?.toLowerCase();
+        return POOL_SWAP_TOPICS.includes(topic) || (topic === BALANCER_V2_SWAP && log.address.toLowerCase() === BALANCER_V2_VAULT.toLowerCase());
+      });
+      const pools = Array.from(new Set(swapLogs.filter(log => log.topics[0].toLowerCase() !== BALANCER_V2_SWAP).map(poolOf)));
+      const balancerPools = Array.from(new Set(swapLogs.filter(log => log.topics[0].toLowerCase() === BALANCER_V2_SWAP).map(poolOf)));
+      const block = { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber };
+
+      const [poolLogs, balancerLogs] = await Promise.all([
+        pools.length > 0 ? getLogs(chainId, { ...block, address: pools, topics: [POOL_SWAP_TOPICS] }) : Promise.resolve([]),
+        balancerPools.length > 0 ? getLogs(chainId, { ...block, address: BALANCER_V2_VAULT, topics: [BALANCER_V2_SWAP, balancerPools] }) : Promise.resolve([]),
+      ]);
+
+      const senders = new Map<string, Promise<string | undefined>>();
+      const senderOf = (hash: string) => {
+        if (!senders.has(hash)) {
+          senders.set(hash, rpcCall<any>(chainId, 'eth_getTransactionByHash', [hash]).then(result => result?.from?.toLowerCase()));
+        }
+        return senders.get(hash)!;
+      };
+
+      const swaps: PoolSwap[] = [];
+      for (const log of [...poolLogs, ...balancerLogs]) {
+        try {
+          const decoded = await decodeSwapLog(chainId, log);
+          if (!decoded) continue;
+
+          const [tokenIn, tokenOut, sender] = await Promise.all([
+            resolveToken(decoded.tokenIn, chainId),
+            resolveToken(decoded.tokenOut, chainId),
+            senderOf(log.transactionHash),
+          ]);
+          if (!tokenIn || !tokenOut) continue;
+
+          swaps.push({
+            txHash: log.transactionHash.toLowerCase(),
+            txIndex: parseInt(log.transactionIndex, 16),
+            logIndex: parseInt(log.logIndex, 16),
+            pool: poolOf(log),
+            sender,
+            tokenIn: decoded.tokenIn.toLowerCase(),
+            tokenOut: decoded.tokenOut.toLowerCase(),
+            amountIn: fromBaseUnits(decoded.amountIn, tokenIn.decimals),
+            amountOut: fromBaseUnits(decoded.amountOut, tokenOut.decimals),
+          });
+        } catch (error) {
+          console.error(`Error decoding swap log in ${log.transactionHash}:`, error);
+        }
+      }
+
+      return swaps;
+    },
+  };
+}
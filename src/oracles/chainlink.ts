@@ -0,0 +1,47 @@
+import { CHAINLINK_USD_FEEDS } from '../data/chainlink.js';
+import { decodeInt256, decodeUint256, toWords } from '../utils/abi.js';
+import { ethCall, getRpcUrl } from '../utils/rpc.js';
+import { fromUnixSeconds } from './common.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+// AggregatorV3Interface latestRoundData() and decimals()
+const LATEST_ROUND_DATA_SELECTOR = '0xfeaf968c';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+function findFeed(chainId: number, address: string): string | undefined {
+  const feeds = CHAINLINK_USD_FEEDS[chainId] ?? {};
+  const token = Object.keys(feeds).find(key => key.toLowerCase() === address.toLowerCase());
+  return token ? feeds[token] : undefined;
+}
+
+// Reads the token's USD feed over the chain's JSON-RPC endpoint. Historical prices are read at the
+// swap's block (which needs an archive node), so requests without a block number are not served.
+export function createChainlinkOracle(): PriceOracle {
+  return {
+    name: 'chainlink',
+    isConfigured: chainId => Boolean(getRpcUrl(chainId)),
+    async getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+      const feed = findFeed(request.chainId, request.address);
+      if (!feed) return null;
+      if (request.timestamp && request.blockNumber === undefined) return null;
+
+      const blockTag = request.blockNumber !== undefined ? `0x${request.blockNumber.toString(16)}` : 'latest';
+      const [roundData, decimals] = await Promise.all([
+        ethCall(request.chainId, feed, LATEST_ROUND_DATA_SELECTOR, blockTag),
+        ethCall(request.chainId, feed, DECIMALS_SELECTOR, blockTag),
+      ]);
+
+      // (roundId, answer, startedAt, updatedAt, answeredInRound)
+      const words = toWords(roundData);
+      if (words.length < 5) return null;
+      const answer = decodeInt256(words[1]);
+      if (answer <= 0n) return null;
+
+      return {
+        priceUSD: Number(answer) / 10 ** Number(decodeUint256(toWords(decimals)[0])),
+        source: 'chainlink',
+        timestamp: fromUnixSeconds(Number(decodeUint256(words[3]))),
+      };
+    },
+  };
+}
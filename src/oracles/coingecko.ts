@@ -0,0 +1,61 @@
+import { httpGet } from '../utils/http.js';
+import { getChain } from '../utils/chains.js';
+import { isNativeToken } from '../utils/tokens.js';
+import { closestPoint, fromUnixSeconds, toUnixSeconds } from './common.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+// Half-width of the market chart window searched for a historical price; CoinGecko returns
+// hourly points for windows between one and 90 days
+const HISTORY_WINDOW_SECONDS = 12 * 60 * 60;
+
+function headers(): Record<string, string> {
+  const apiKey = process.env.COINGECKO_API_KEY;
+  return apiKey ? { 'x-cg-demo-api-key': apiKey } : {};
+}
+
+// Current prices come from /simple, historical ones from the market chart point nearest the
+// timestamp. Tokens are identified by platform and contract address; native tokens by coin id.
+export function createCoinGeckoOracle(): PriceOracle {
+  return {
+    name: 'coingecko',
+    isConfigured: () => true,
+    async getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+      const chain = getChain(request.chainId);
+      const native = isNativeToken(request.address);
+      const address = request.address.toLowerCase();
+
+      if (!request.timestamp) {
+        const response = native
+          ? await httpGet('coingecko', `${COINGECKO_API}/simple/price`, {
+            headers: headers(),
+            params: { ids: chain.nativeCoingeckoId, vs_currencies: 'usd', include_last_updated_at: true },
+          })
+          : await httpGet('coingecko', `${COINGECKO_API}/simple/token_price/${chain.coingeckoPlatform}`, {
+            headers: headers(),
+            params: { contract_addresses: address, vs_currencies: 'usd', include_last_updated_at: true },
+          });
+
+        const entry = response.data[native ? chain.nativeCoingeckoId : address];
+        if (!entry?.usd) return null;
+        return {
+          priceUSD: entry.usd,
+          source: 'coingecko',
+          timestamp: entry.last_updated_at ? fromUnixSeconds(entry.last_updated_at) : new Date().toISOString(),
+        };
+      }
+
+      const target = toUnixSeconds(request.timestamp);
+      const coinPath = native ? `coins/${chain.nativeCoingeckoId}` : `coins/${chain.coingeckoPlatform}/contract/${address}`;
+      const response = await httpGet('coingecko', `${COINGECKO_API}/${coinPath}/market_chart/range`, {
+        headers: headers(),
+        params: { vs_currency: 'usd', from: target - HISTORY_WINDOW_SECONDS, to: target + HISTORY_WINDOW_SECONDS },
+      });
+
+      const point = closestPoint(response.data.prices ?? [], target * 1000);
+      if (!point || !point[1]) return null;
+      return { priceUSD: point[1], source: 'coingecko', timestamp: new Date(point[0]).toISOString() };
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// Unix seconds of an ISO timestamp, or of the current time
+export function toUnixSeconds(timestamp?: string): number {
+  return Math.floor((timestamp ? new Date(timestamp).getTime() : Date.now()) / 1000);
+}
+
+export function fromUnixSeconds(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// The [time, price] point closest to `target`, in whatever time unit the points use
+export function closestPoint(points: [number, number][], target: number): [number, number] | undefined {
+  return points.reduce<[number, number] | undefined>(
+    (best, point) => !best || Math.abs(point[0] - target) < Math.abs(best[0] - target) ? point : best,
+    undefined
+  );
+}
@@ -0,0 +1,67 @@
+import { readFile } from 'node:fs/promises';
+import { parseCsv } from '../sources/file.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+// Historical lookups only accept a row this close to the requested time
+const MAX_DISTANCE_MS = 24 * 60 * 60 * 1000;
+
+interface PriceRow {
+  chainId: number | null;
+  address: string | null;
+  symbol: string | null;
+  time: number;
+  priceUSD: number;
+}
+
+const loadedFiles = new Map<string, Promise<PriceRow[]>>();
+
+// Columns: chain_id, token_address, symbol, timestamp, price_usd. Rows without a token_address
+// match by symbol, and rows without a chain_id match every chain.
+async function loadPrices(path: string): Promise<PriceRow[]> {
+  const rows = parseCsv(await readFile(path, 'utf8'));
+  return rows
+    .map(row => ({
+      chainId: row.chain_id ? Number(row.chain_id) : null,
+      address: row.token_address ? row.token_address.toLowerCase() : null,
+      symbol: row.symbol ? row.symbol.toUpperCase() : null,
+      time: new Date(row.timestamp).getTime(),
+      priceUSD: Number(row.price_usd),
+    }))
+    .filter(row => !Number.isNaN(row.time) && row.priceUSD > 0);
+}
+
+function rowMatches(row: PriceRow, request: PriceRequest): boolean {
+  if (row.chainId !== null && row.chainId !== request.chainId) return false;
+  if (row.address) return row.address === request.address.toLowerCase();
+  return row.symbol !== null && row.symbol === request.symbol?.toUpperCase();
+}
+
+// A local price file (PRICE_DATA_FILE) for offline analysis: the latest row is the current price,
+// and the row nearest in time, within a day, is the historical price
+export function createCsvOracle(): PriceOracle {
+  return {
+    name: 'csv',
+    isConfigured: () => Boolean(process.env.PRICE_DATA_FILE),
+    async getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+      const path = process.env.PRICE_DATA_FILE!;
+      if (!loadedFiles.has(path)) {
+        // A failed read is retried on the next lookup rather than remembered
+        loadedFiles.set(path, loadPrices(path).catch(error => {
+          loadedFiles.delete(path);
+          throw error;
+        }));
+      }
+
+      const rows = (await loadedFiles.get(path)!).filter(row => rowMatches(row, request));
+      if (rows.length === 0) return null;
+
+      const target = request.timestamp ? new Date(request.timestamp).getTime() : null;
+      const row = target === null
+        ? rows.reduce((latest, candidate) => candidate.time > latest.time ? candidate : latest)
+        : rows.reduce((best, candidate) => Math.abs(candidate.time - target) < Math.abs(best.time - target) ? candidate : best);
+      if (target !== null && Math.abs(row.time - target) > MAX_DISTANCE_MS) return null;
+
+      return { priceUSD: row.priceUSD, source: 'csv', timestamp: new Date(row.time).toISOString() };
+    },
+  };
+}
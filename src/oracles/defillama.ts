@@ -0,0 +1,38 @@
+import { httpGet } from '../utils/http.js';
+import { getChain } from '../utils/chains.js';
+import { isNativeToken } from '../utils/tokens.js';
+import { fromUnixSeconds, toUnixSeconds } from './common.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+const DEFILLAMA_COINS_API = 'https://coins.llama.fi';
+
+// How far from the requested time DefiLlama may look for a historical price
+const SEARCH_WIDTH = '6h';
+
+// DefiLlama's coins API: `chain:address` ids, with native tokens under their CoinGecko id; no key required
+export function createDefiLlamaOracle(): PriceOracle {
+  return {
+    name: 'defillama',
+    isConfigured: () => true,
+    async getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+      const chain = getChain(request.chainId);
+      const coin = isNativeToken(request.address)
+        ? `coingecko:${chain.nativeCoingeckoId}`
+        : `${chain.defillamaChain}:${request.address.toLowerCase()}`;
+
+      const response = request.timestamp
+        ? await httpGet('defillama', `${DEFILLAMA_COINS_API}/prices/historical/${toUnixSeconds(request.timestamp)}/${coin}`, {
+          params: { searchWidth: SEARCH_WIDTH },
+        })
+        : await httpGet('defillama', `${DEFILLAMA_COINS_API}/prices/current/${coin}`);
+
+      const entry = response.data.coins?.[coin];
+      if (!entry?.price) return null;
+      return {
+        priceUSD: entry.price,
+        source: 'defillama',
+        timestamp: entry.timestamp ? fromUnixSeconds(entry.timestamp) : new Date().toISOString(),
+      };
+    },
+  };
+}
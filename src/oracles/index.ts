@@ -0,0 +1,75 @@
+import { createCsvOracle } from './csv.js';
+import { createDefiLlamaOracle } from './defillama.js';
+import { createCoinGeckoOracle } from './coingecko.js';
+import { createChainlinkOracle } from './chainlink.js';
+import { createUniswapTwapOracle } from './uniswap.js';
+import { withCache, getCacheTtl } from '../utils/cache.js';
+import { NATIVE_TOKEN_ADDRESS } from '../utils/tokens.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+export const PRICE_ORACLE_NAMES = ['csv', 'defillama', 'coingecko', 'chainlink', 'uniswap_twap'] as const;
+
+const ORACLES: Record<typeof PRICE_ORACLE_NAMES[number], PriceOracle> = {
+  csv: createCsvOracle(),
+  defillama: createDefiLlamaOracle(),
+  coingecko: createCoinGeckoOracle(),
+  chainlink: createChainlinkOracle(),
+  uniswap_twap: createUniswapTwapOracle(),
+};
+
+// Prices older than this are final and cached without expiry
+const FINAL_PRICE_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function getPriceOracle(name: string): PriceOracle {
+  const oracle = ORACLES[name.toLowerCase() as typeof PRICE_ORACLE_NAMES[number]];
+  if (!oracle) {
+    throw new Error(`Unknown price oracle "${name}". Expected one of: ${PRICE_ORACLE_NAMES.join(', ')}`);
+  }
+  return oracle;
+}
+
+// The oracles to ask, in order: PRICE_ORACLES (default: all), keeping those configured for the chain
+export function getPriceOracles(chainId: number): PriceOracle[] {
+  const listed = process.env.PRICE_ORACLES
+    ? process.env.PRICE_ORACLES.split(',').map(name => name.trim()).filter(Boolean)
+    : [...PRICE_ORACLE_NAMES];
+  return listed.map(getPriceOracle).filter(oracle => oracle.isConfigured(chainId));
+}
+
+// Ask each oracle in turn and return the first price found, or null when none has one.
+// A failing oracle is logged and skipped.
+export async function getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+  if (!request.address) return null;
+
+  const oracles = getPriceOracles(request.chainId);
+  const final = request.timestamp !== undefined && Date.now() - new Date(request.timestamp).getTime() > FINAL_PRICE_AGE_MS;
+  const cacheKey = [
+    oracles.map(oracle => oracle.name).join(','),
+    request.chainId,
+    request.address.toLowerCase(),
+    request.timestamp ?? 'current',
+    request.blockNumber ?? null,
+  ];
+
+  try {
+    // Misses throw so that "no price" is never cached
+    return await withCache('prices', cacheKey, final ? 'immutable' : getCacheTtl('prices'), async () => {
+      for (const oracle of oracles) {
+        try {
+          const quote = await oracle.getPrice(request);
+          if (quote && quote.priceUSD > 0) return quote;
+        } catch (error) {
+          console.error(`Price oracle ${oracle.name} failed for ${request.address} on chain ${request.chainId}:`, error);
+        }
+      }
+      throw new Error(`No price found for ${request.symbol ?? request.address} on chain ${request.chainId}`);
+    });
+  } catch (error) {
+    return null;
+  }
+}
+
+// The chain's native gas token (ETH, POL, ...), now or at a point in time
+export function getNativePrice(chainId: number, timestamp?: string, blockNumber?: number): Promise<PriceQuote | null> {
+  return getPrice({ chainId, address: NATIVE_TOKEN_ADDRESS, timestamp, blockNumber });
+}
@@ -0,0 +1,74 @@
+import { getChain } from '../utils/chains.js';
+import { decodeAddress, decodeInt256, decodeUint256, encodeCall, encodeUint256, toWords } from '../utils/abi.js';
+import { ethCall, getRpcUrl } from '../utils/rpc.js';
+import { getTokenBySymbol, isNativeToken, requireTokenDecimals } from '../utils/tokens.js';
+import type { PriceOracle, PriceQuote, PriceRequest } from '../types/index.js';
+
+// UniswapV3Factory getPool(address,address,uint24), and the pool's liquidity() and observe(uint32[])
+const GET_POOL_SELECTOR = '0x1698ee82';
+const LIQUIDITY_SELECTOR = '0x1a686502';
+const OBSERVE_SELECTOR = '0x883bdbfd';
+
+const FEE_TIERS = [100, 500, 3000, 10000];
+const TWAP_WINDOW_SECONDS = 1800;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// The token/USDC pool with the most in-range liquidity
+async function findPool(chainId: number, token: string, usdc: string, blockTag: string): Promise<string | null> {
+  const factory = getChain(chainId).uniswapV3Factory;
+  const pools = await Promise.all(FEE_TIERS.map(async fee => {
+    const pool = decodeAddress(toWords(await ethCall(chainId, factory, encodeCall(GET_POOL_SELECTOR, [token, usdc, fee]), blockTag))[0]);
+    if (pool === ZERO_ADDRESS) return null;
+    const liquidity = decodeUint256(toWords(await ethCall(chainId, pool, LIQUIDITY_SELECTOR, blockTag))[0]);
+    return { pool, liquidity };
+  }));
+
+  const best = pools.reduce<{ pool: string; liquidity: bigint } | null>(
+    (current, candidate) => candidate && candidate.liquidity > 0n && (!current || candidate.liquidity > current.liquidity) ? candidate : current,
+    null
+  );
+  return best?.pool ?? null;
+}
+
+// Time-weighted average price against the chain's USDC over the 30 minutes before the block,
+// treating USDC as $1. Like Chainlink, historical prices need the swap's block and an archive node.
+export function createUniswapTwapOracle(): PriceOracle {
+  return {
+    name: 'uniswap_twap',
+    isConfigured: chainId => Boolean(getRpcUrl(chainId)),
+    async getPrice(request: PriceRequest): Promise<PriceQuote | null> {
+      const chain = getChain(request.chainId);
+      const usdc = getTokenBySymbol('USDC', request.chainId)?.address;
+      const token = isNativeToken(request.address) ? chain.wrappedNativeAddress : request.address;
+      if (!usdc || token.toLowerCase() === usdc.toLowerCase()) return null;
+      if (request.timestamp && request.blockNumber === undefined) return null;
+
+      const blockTag = request.blockNumber !== undefined ? `0x${request.blockNumber.toString(16)}` : 'latest';
+      const pool = await findPool(request.chainId, token, usdc, blockTag);
+      if (!pool) return null;
+
+      // observe([window, 0]) returns the tick accumulators at both ends of the window
+      const observeCall = OBSERVE_SELECTOR + encodeUint256(32) + encodeUint256(2) + encodeUint256(TWAP_WINDOW_SECONDS) + encodeUint256(0);
+      const words = toWords(await ethCall(request.chainId, pool, observeCall, blockTag));
+      const offset = Number(decodeUint256(words[0])) / 32;
+      const averageTick = Number(decodeInt256(words[offset + 2]) - decodeInt256(words[offset + 1])) / TWAP_WINDOW_SECONDS;
+
+      // The tick prices token0 in units of token1; the pool orders its tokens by address
+      const [tokenDecimals, usdcDecimals] = await Promise.all([
+        requireTokenDecimals(token, request.chainId),
+        requireTokenDecimals(usdc, request.chainId),
+      ]);
+      const tokenIsToken0 = token.toLowerCase() < usdc.toLowerCase();
+      const rawPrice = Math.pow(1.0001, averageTick);
+      const priceUSD = tokenIsToken0
+        ? rawPrice * 10 ** (tokenDecimals - usdcDecimals)
+        : 10 ** (tokenDecimals - usdcDecimals) / rawPrice;
+
+      return {
+        priceUSD,
+        source: 'uniswap_twap',
+        timestamp: request.timestamp ?? new Date().toISOString(),
+      };
+    },
+  };
+}
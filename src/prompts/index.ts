@@ -0,0 +1,165 @@
+import { SUPPORTED_CHAIN_IDS } from '../utils/chains.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+const CHAIN_ARGUMENT: PromptArgument = {
+  name: 'chainId',
+  description: `Chain ID, or comma-separated chain IDs, to analyze (default: 1). Supported: ${SUPPORTED_CHAIN_IDS.join(', ')}`,
+  required: false,
+};
+
+// Shared interpretation notes for the JSON the tools return
+const COMPARISON_GUIDE = `How to read a ComparisonResult (compare_with_1inch):
+- totalActualGas / totalOptimalGas / gasSavingsPotential are gas_used × gas_price, in wei of the chain's native token. gasSavingsPotentialUSD and actualGasCost (totalCostUSD, nativeTotals per native token, baseFeeUSD / priorityFeeUSD when the EIP-1559 split is known) express the same costs in native tokens and USD at each swap's historical price.
+- averageSlippageBps is the average realized slippage in basis points versus the historical market rate at block time (positive = worse than market). It is null when no swap could be measured; unmeasuredSlippageCount says how many swaps had no reference price.
+- Each detailedComparisons entry has txHash, chainId, actualRoute (the DEX used), optimalRoute (the best alternative route), gasDifference (wei, positive = the swap spent more gas than 1inch's route) with gasDifferenceNative / gasDifferenceUSD, actualGasCost, slippageBps with slippageStatus ("measured" or "unknown"), and actualAmountOut vs optimalAmountOut (output token units).
+- optimalAmountOut is a counterfactual at the time of the swap; counterfactual.method says how it was obtained and counterfactual.confidence how far to trust it: fork_simulation (high) simulated Uniswap routes with eth_call at the block before the swap, historical_price (medium) applied the 1inch quote's edge over today's market to the market rate at block_time, and current_quote (low) is the raw current-time 1inch quote, so its gap on an old swap mostly reflects price movement. Without a 1inch quote, historical_price is the market rate at block_time itself and gasDifference is 0. currentQuoteAmountOut is the raw 1inch quote, or null when 1inch could not quote; counterfactualMethods counts each method.`;
+
+const AGGREGATOR_GUIDE = `How to read an AggregatorComparisonResult (compare_with_aggregators):
+- Each trades entry quotes one past swap on every aggregator. winner is the aggregator with the highest amountOut, improvementBps is how much more it would have returned than the swap did (negative = the swap did better), and spreadBps is the gap between the best and worst quote.
+- Per-quote status is "quoted", "failed" (error says why) or "unsupported" (chain not served); failed aggregators are simply absent from that trade's ranking.
+- standings counts wins per aggregator and its averageDifferenceBps versus the wallet's executions.
+- Quotes reflect current liquidity, so differences on old swaps partly reflect market movement.`;
+
+const REPORT_GUIDE = `How to read a SwapReportData (generate_swap_report):
+- summary.efficiencyScore is 0-100; below 50 is poor, 70+ is good, 90+ is excellent.
+- scoreBreakdown explains the score: the scoring profile used, its baseScore, and one entry per factor with the measured value, the points it added or deducted and an explanation. Use it to say which factors cost the most points.
+- summary.totalVolumeUSD, totalSwaps, averageGasUsed and mostUsedDEX describe the analyzed window given in timeRange (the requested from/to or block range when one was passed).
+- A swap is one transaction's trade: rows a data source reports per hop are merged, so from_token/from_amount are what went in and to_token/to_amount what came out. Merged swaps list their hops in execution order and the venues they used; dex then joins the venues with " + ". When one transaction holds several independent swaps (a batch), each carries a leg number, and the comparison, MEV finding and gas timing entry for that swap carry the same leg.
+- coverage.transactionsAnalyzed and transactionsCompared say how many swaps fed the totals and the 1inch comparison; historyTruncated is true when the window held more swaps than the limit, so totals are partial.
+- gasAnalysis.totalGasSpent and potentialSavings are in wei; savingsPercentage is potentialSavings / totalGasSpent. totalGasCostUSD and potentialSavingsUSD use the native token price on the day of each swap; nativeTotals gives the cost per native token (ETH, POL), split into baseFee and priorityFee where known. baseFeeUSD / priorityFeeUSD cover the feeSplitTransactions swaps with EIP-1559 data; unpricedTransactions had no historical price.
+- gasAnalysis.failedSwapGasUSD and approvalGasUSD are gas spent on reverted swap attempts and on approvals outside the swaps; totalGasCostWithOverheadUSD adds them to totalGasCostUSD. gasOverhead lists those transactions (kind failed_swap, approval, permit2_approval or permit2_permit) and allowances.outstanding lists allowances still open to routers, unlimited ones first. gasOverhead.source is null when the swap data source cannot see failed transactions or approvals, and allowances is null without a JSON-RPC endpoint.
+- routingAnalysis counts optimalRoutes vs suboptimalRoutes and lists missedOpportunities, including swaps lost to MEV.
+- mevAnalysis inspects the compared swaps' blocks: sandwiched swaps had a same-direction swap before and an opposite swap after from one searcher, with extractedValueUSD estimating the searcher's profit before gas; backrun swaps were immediately followed by an opposite arbitrage in the same pool. source is null when no JSON-RPC endpoint or Dune block trades query is configured, so absence of findings then means "not checked".
+- gasTiming compares the base fee each compared swap paid with the chain's base fees around it: baseFeePercentile is the share of blocks in the swap's hour that were cheaper, cheapestWindow is the hour within windowHours after the swap with the lowest median base fee, and potentialSavingsUSD / potentialSavingsNative is the base fee paid above that median. buckets group the swaps by UTC hour of the week and advice is already personalized from them. source is null when no JSON-RPC endpoint is configured; only gas prices paid are bucketed then.
+- chainBreakdown splits swaps, volume and gas by chain, including each chain's native token price in USD.
+- recommendations are already derived from the data, most severe first; prioritize and explain them rather than repeating them verbatim.`;
+
+const RECOMMENDATION_GUIDE = `How to read recommendations (generate_swap_report, compare_with_1inch):
+- Each entry has the id of the rule that produced it, a category, a severity (high, medium, low, info), a rendered message, estimatedImpactUSD (the value at stake when it can be estimated, otherwise null) and txHashes, the swaps it is based on. Quote those swaps as evidence; info entries are context rather than action items.`;
+
+function chainArgument(args: Record<string, string>): string {
+  if (!args.chainId) return '';
+  const chainIds = args.chainId.split(',').map(id => id.trim()).filter(Boolean);
+  return `, "chainId": ${chainIds.length > 1 ? `[${chainIds.join(', ')}]` : chainIds[0]}`;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'audit_swap_efficiency',
+    description: "Audit a wallet's swap efficiency and produce prioritized, actionable advice",
+    arguments: [
+      { name: 'walletAddress', description: 'Wallet address to audit', required: true },
+      CHAIN_ARGUMENT,
+    ],
+    render: args => `Audit the swap efficiency of wallet ${args.walletAddress}.
+
+1. Call generate_swap_report with {"walletAddress": "${args.walletAddress}"${chainArgument(args)}}.
+2. If the report shows suboptimal routes or unmeasured slippage, call compare_with_1inch with the same arguments to inspect individual swaps.
+
+${REPORT_GUIDE}
+
+${COMPARISON_GUIDE}
+
+${RECOMMENDATION_GUIDE}
+
+Write the audit as:
+- A one-paragraph verdict built around the efficiency score.
+- The three most costly issues, each quantified (gas in native token, value lost in output token or USD) and tied to specific txHash values where possible.
+- Concrete changes to trading habits, ordered by expected savings.
+- Caveats: swaps with unknown slippage and comparisons with low counterfactual confidence.`,
+  },
+  {
+    name: 'explain_transaction_routing',
+    description: 'Explain how a specific swap was routed and how it compares to the optimal route',
+    arguments: [
+      { name: 'walletAddress', description: 'Wallet that made the swap', required: true },
+      { name: 'txHash', description: 'Transaction hash of the swap to explain', required: true },
+      CHAIN_ARGUMENT,
+    ],
+    render: args => `Explain the routing of swap ${args.txHash} made by wallet ${args.walletAddress}.
+
+1. Call get_user_transactions with {"walletAddress": "${args.walletAddress}", "limit": 50${chainArgument(args)}} and find the entry whose hash is ${args.txHash}. It gives the tokens, amounts, gas_used, gas_price (wei) and the DEX used.
+2. Call compare_with_1inch with {"walletAddress": "${args.walletAddress}"${chainArgument(args)}} and find the detailedComparisons entry whose txHash is ${args.txHash}.
+
+${COMPARISON_GUIDE}
+
+Explain in plain language:
+- What was swapped, on which DEX and chain, and at what effective rate (to_amount / from_amount).
+- How the route compares to 1inch's: output difference, gas difference converted from wei to the native token, and the slippage versus market.
+- Whether the difference is more likely due to routing, gas, or price movement since the swap.
+If the swap is not among the compared transactions, say so and explain it from the transaction data alone.`,
+  },
+  {
+    name: 'plan_large_trade',
+    description: 'Plan a large upcoming trade to minimize price impact, slippage and gas costs',
+    arguments: [
+      { name: 'fromToken', description: 'Token to sell (symbol or address)', required: true },
+      { name: 'toToken', description: 'Token to buy (symbol or address)', required: true },
+      { name: 'amount', description: 'Amount of fromToken to sell', required: true },
+      { name: 'walletAddress', description: 'Wallet whose trading history should inform the plan', required: false },
+      CHAIN_ARGUMENT,
+    ],
+    render: args => `Plan a trade selling ${args.amount} ${args.fromToken} for ${args.toToken}${args.chainId ? ` on chain ${args.chainId}` : ''}, minimizing total cost.
+${args.walletAddress ? `
+1. Call generate_swap_report with {"walletAddress": "${args.walletAddress}"${chainArgument(args)}} to learn which venues this wallet uses, its typical slippage and the gas prices it usually pays.
+2. Call compare_with_aggregators with the same arguments to see how often its past routes underperformed an aggregator, and which aggregator usually quotes best.
+
+${REPORT_GUIDE}
+
+${AGGREGATOR_GUIDE}
+` : `
+No wallet was given, so base the plan on general market structure rather than trading history.
+`}
+The plan should cover:
+- Whether to execute in one transaction or split it (how many clips, and why), considering price impact on ${args.fromToken}/${args.toToken} liquidity.
+- Routing: aggregator vs direct DEX, and whether to use MEV-protected submission.
+- Slippage tolerance to set, justified by the wallet's measured slippage in basis points where available.
+- Gas timing, with costs expressed in the native token rather than raw wei${args.walletAddress ? ", using the report's gasTiming buckets and advice to pick an hour" : ''}.
+- A short checklist to follow when executing.`,
+  },
+];
+
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+    name,
+    description,
+    arguments: promptArguments,
+  }));
+}
+
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing required prompt arguments: ${missing.map(arg => arg.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: prompt.render(args),
+        },
+      },
+    ],
+  };
+}
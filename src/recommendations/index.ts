@@ -0,0 +1,66 @@
+import { RECOMMENDATION_RULE_IDS, RECOMMENDATION_RULES } from './rules.js';
+import { getConfig, getConfigPath } from '../utils/config.js';
+import type { RecommendationContext, RecommendationRuleId } from './rules.js';
+import type { Recommendation, RecommendationSelection, RecommendationSeverity } from '../types/index.js';
+
+export { RECOMMENDATION_RULE_IDS } from './rules.js';
+export type { RecommendationContext } from './rules.js';
+
+const SEVERITY_ORDER: Record<RecommendationSeverity, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+function isRuleId(id: string): id is RecommendationRuleId {
+  return (RECOMMENDATION_RULE_IDS as readonly string[]).includes(id);
+}
+
+function assertRuleIds(ids: string[], source: string): void {
+  const unknown = ids.filter(id => !isRuleId(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown recommendation rule${unknown.length > 1 ? 's' : ''} ${unknown.map(id => `"${id}"`).join(', ')} in ${source}. Expected one of: ${RECOMMENDATION_RULE_IDS.join(', ')}`);
+  }
+}
+
+// Fill {placeholders} from the values; unknown placeholders are left as written
+export function renderTemplate(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => key in values ? String(values[key]) : placeholder);
+}
+
+// Rules enabled by the config file, adjusted by the caller's selection; disabling wins over enabling
+export function getEnabledRules(selection: RecommendationSelection = {}): RecommendationRuleId[] {
+  const { disabledRules } = getConfig().recommendations;
+  assertRuleIds(disabledRules, getConfigPath());
+  assertRuleIds([...selection.enabledRules ?? [], ...selection.disabledRules ?? []], 'the rule selection');
+
+  const disabled = new Set([
+    ...disabledRules.filter(id => !selection.enabledRules?.includes(id)),
+    ...selection.disabledRules ?? [],
+  ]);
+  return RECOMMENDATION_RULE_IDS.filter(id => !disabled.has(id));
+}
+
+// Run every enabled rule and render its message from the configured or built-in template,
+// most severe first and, within a severity, largest estimated impact first
+export function generateRecommendations(context: RecommendationContext, selection?: RecommendationSelection): Recommendation[] {
+  const { templates } = getConfig().recommendations;
+  assertRuleIds(Object.keys(templates), getConfigPath());
+
+  const recommendations: Recommendation[] = [];
+  for (const id of getEnabledRules(selection)) {
+    const rule = RECOMMENDATION_RULES[id];
+    const match = rule.evaluate(context);
+    if (!match) continue;
+
+    const impactUSD = match.estimatedImpactUSD ?? null;
+    recommendations.push({
+      id,
+      category: rule.category,
+      severity: match.severity,
+      message: renderTemplate(templates[id] ?? rule.template, match.values),
+      estimatedImpactUSD: impactUSD !== null ? Math.round(impactUSD * 100) / 100 : null,
+      txHashes: match.txHashes ?? [],
+    });
+  }
+
+  return recommendations.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || (b.estimatedImpactUSD ?? 0) - (a.estimatedImpactUSD ?? 0)
+  );
+}
@@ -0,0 +1,466 @@
+import { formatNativeAmounts } from '../utils/gas.js';
+import type {
+  ComparisonResult,
+  GasOverheadAnalysis,
+  GasTimingAnalysis,
+  MevAnalysis,
+  MevPattern,
+  OverheadTransaction,
+  RecommendationCategory,
+  RecommendationSeverity,
+  SwapComparison,
+  SwapTransaction,
+} from '../types/index.js';
+
+export const RECOMMENDATION_RULE_IDS = [
+  'no_transactions',
+  'gas_savings',
+  'gas_efficient',
+  'failed_swaps',
+  'approval_overhead',
+  'uniswap_v2_upgrade',
+  'slippage_unmeasured',
+  'high_slippage',
+  'elevated_slippage',
+  'suboptimal_routes',
+  'low_confidence_comparisons',
+  'high_value_trades',
+  'sandwiched_swaps',
+  'backrun_swaps',
+  'unlimited_approvals',
+  'low_efficiency',
+  'moderate_efficiency',
+  'excellent_efficiency',
+  'gas_timing',
+  'high_gas_price',
+  'low_gas_price',
+  'high_volume',
+  'small_trades',
+  'single_venue',
+  'frequent_trading',
+] as const;
+
+export type RecommendationRuleId = typeof RECOMMENDATION_RULE_IDS[number];
+
+export interface RecommendationContext {
+  transactions: SwapTransaction[];
+  comparison: Omit<ComparisonResult, 'recommendations'>;
+  // Wallet-level results only a full report computes; rules that need them stay silent without
+  report?: {
+    efficiencyScore: number;
+    averageGasPrice: number;
+    totalVolumeUSD: number;
+    mevAnalysis: MevAnalysis;
+    gasTiming: GasTimingAnalysis;
+    gasOverhead: GasOverheadAnalysis;
+  };
+}
+
+// What a rule found: the values its template refers to, plus the evidence behind it
+export interface RuleMatch {
+  severity: RecommendationSeverity;
+  values?: Record<string, string | number>;
+  estimatedImpactUSD?: number | null;
+  txHashes?: string[];
+}
+
+export interface RecommendationRule {
+  category: RecommendationCategory;
+  // Message with {placeholders} filled from the match's values
+  template: string;
+  evaluate(context: RecommendationContext): RuleMatch | null;
+}
+
+const HIGH_SLIPPAGE_BPS = 100;
+const ELEVATED_SLIPPAGE_BPS = 50;
+const SUBOPTIMAL_ROUTE_SHARE = 0.3;
+const HIGH_VALUE_TRADE_USD = 1000;
+const HIGH_GAS_PRICE_WEI = 100e9;
+const LOW_GAS_PRICE_WEI = 20e9;
+const COSTLY_TIMING_SHARE = 20;
+const FAILED_SWAP_SHARE = 0.1;
+const HIGH_VOLUME_USD = 100000;
+const SMALL_VOLUME_USD = 1000;
+const FREQUENT_TRADING_SWAPS = 20;
+
+function hashes(items: { txHash: string }[]): string[] {
+  return Array.from(new Set(items.map(item => item.txHash)));
+}
+
+function sumUSD(values: (number | null | undefined)[]): number | null {
+  const known = values.filter((value): value is number => value !== null && value !== undefined);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) : null;
+}
+
+// Value lost to slippage: each swap's USD value times its slippage beyond the market rate
+function slippageCostUSD(context: RecommendationContext, comparisons: SwapComparison[]): number | null {
+  const values = new Map(context.transactions.map(tx => [tx.hash, tx.usd_value]));
+  return sumUSD(comparisons.map(comparison => {
+    const usdValue = values.get(comparison.txHash);
+    return usdValue && comparison.slippageBps !== null ? usdValue * comparison.slippageBps / 10000 : null;
+  }));
+}
+
+function slippageMatch(context: RecommendationContext, severity: RecommendationSeverity, thresholdBps: number): RuleMatch {
+  const affected = context.comparison.detailedComparisons.filter(comparison => comparison.slippageBps !== null && comparison.slippageBps > thresholdBps);
+  return {
+    severity,
+    values: { averageBps: context.comparison.averageSlippageBps!.toFixed(0), count: affected.length },
+    estimatedImpactUSD: slippageCostUSD(context, affected),
+    txHashes: hashes(affected),
+  };
+}
+
+function mevMatch(context: RecommendationContext, pattern: MevPattern, severity: RecommendationSeverity): RuleMatch | null {
+  const mevAnalysis = context.report?.mevAnalysis;
+  const findings = mevAnalysis?.findings.filter(finding => finding.pattern === pattern) ?? [];
+  if (findings.length === 0) return null;
+
+  const extractedUSD = sumUSD(findings.map(finding => finding.extractedValueUSD));
+  return {
+    severity,
+    values: {
+      count: hashes(findings).length,
+      extracted: extractedUSD !== null && extractedUSD > 0 ? ` (~$${extractedUSD.toFixed(2)} extracted)` : '',
+    },
+    estimatedImpactUSD: extractedUSD,
+    txHashes: hashes(findings),
+  };
+}
+
+// Gas paid by overhead transactions, e.g. "0.0042 ETH (~$12.60)"
+function overheadGas(transactions: OverheadTransaction[]): string {
+  const byToken = new Map<string, number>();
+  for (const tx of transactions) {
+    if (tx.gas_cost) byToken.set(tx.gas_cost.nativeToken, (byToken.get(tx.gas_cost.nativeToken) ?? 0) + tx.gas_cost.costNative);
+  }
+  const native = formatNativeAmounts(Array.from(byToken.entries()).map(([nativeToken, amount]) => ({ nativeToken, amount })));
+  const usd = sumUSD(transactions.map(tx => tx.gas_cost?.costUSD));
+  return `${native || 'less than 0.000001 of the native token'}${usd !== null && usd > 0 ? ` (~$${usd.toFixed(2)})` : ''}`;
+}
+
+function hasSwaps(context: RecommendationContext): boolean {
+  return context.transactions.length > 0;
+}
+
+// Thresholds are the ones the original free-form recommendations used
+export const RECOMMENDATION_RULES: Record<RecommendationRuleId, RecommendationRule> = {
+  no_transactions: {
+    category: 'data_quality',
+    template: 'No swaps were found in the analyzed window - start making some swaps to get an analysis',
+    evaluate: context => hasSwaps(context) ? null : { severity: 'info' },
+  },
+
+  gas_savings: {
+    category: 'gas',
+    template: 'Routing through the 1inch aggregator would have saved {savings} of gas ({percentage}% of the gas spent)',
+    evaluate: ({ comparison }) => {
+      if (comparison.gasSavingsPotential <= 0) return null;
+
+      // In each chain's native token, and USD at the time of the swaps
+      const savingsByToken = new Map<string, number>();
+      for (const item of comparison.detailedComparisons) {
+        const token = item.actualGasCost.nativeToken;
+        savingsByToken.set(token, (savingsByToken.get(token) ?? 0) + item.gasDifferenceNative);
+      }
+      const nativeSavings = formatNativeAmounts(
+        Array.from(savingsByToken.entries()).map(([nativeToken, amount]) => ({ nativeToken, amount }))
+      );
+      const savingsUSD = comparison.gasSavingsPotentialUSD;
+      const percentage = (comparison.gasSavingsPotential / comparison.totalActualGas) * 100;
+
+      return {
+        severity: percentage >= 30 ? 'high' : percentage >= 10 ? 'medium' : 'low',
+        values: {
+          savings: `${nativeSavings || 'less than 0.000001 of the native token'}${savingsUSD > 0 ? ` (~$${savingsUSD.toFixed(2)})` : ''}`,
+          percentage: percentage.toFixed(1),
+        },
+        estimatedImpactUSD: savingsUSD > 0 ? savingsUSD : null,
+        txHashes: hashes(comparison.detailedComparisons.filter(item => item.gasDifference > 0)),
+      };
+    },
+  },
+
+  gas_efficient: {
+    category: 'gas',
+    template: 'Your gas usage is already quite efficient across the {count} compared swaps',
+    evaluate: ({ comparison }) => comparison.detailedComparisons.length > 0 && comparison.gasSavingsPotential <= 0
+      ? { severity: 'info', values: { count: comparison.detailedComparisons.length } }
+      : null,
+  },
+
+  failed_swaps: {
+    category: 'gas',
+    template: '{count} swap attempts reverted and wasted {gas} - check slippage tolerance, deadlines and allowances before sending, or use a wallet that simulates transactions first',
+    evaluate: ({ report, transactions }) => {
+      const failed = report?.gasOverhead.transactions.filter(tx => tx.kind === 'failed_swap' && tx.gas_used > 0) ?? [];
+      if (!report || failed.length === 0) return null;
+
+      return {
+        severity: failed.length / (failed.length + transactions.length) >= FAILED_SWAP_SHARE ? 'medium' : 'low',
+        values: { count: failed.length, gas: overheadGas(failed) },
+        estimatedImpactUSD: report.gasOverhead.failedSwapGasUSD,
+        txHashes: failed.map(tx => tx.hash),
+      };
+    },
+  },
+
+  approval_overhead: {
+    category: 'approvals',
+    template: '{count} approval transactions cost {gas} - approving Permit2 once per token lets Permit2 routers use signed permits instead of a separate approval each time',
+    evaluate: ({ report, transactions }) => {
+      const swapHashes = new Set(transactions.map(tx => tx.hash.toLowerCase()));
+      const approvals = report?.gasOverhead.transactions.filter(tx =>
+        tx.kind !== 'failed_swap' && tx.gas_used > 0 && !swapHashes.has(tx.hash.toLowerCase())
+      ) ?? [];
+      if (!report || approvals.length === 0) return null;
+
+      return {
+        severity: 'low',
+        values: { count: approvals.length, gas: overheadGas(approvals) },
+        estimatedImpactUSD: report.gasOverhead.approvalGasUSD,
+        txHashes: approvals.map(tx => tx.hash),
+      };
+    },
+  },
+
+  uniswap_v2_upgrade: {
+    category: 'venue',
+    template: 'Most of your swaps ({count}) went through Uniswap V2 - Uniswap V3 pools offer better capital efficiency and lower slippage',
+    evaluate: ({ transactions }) => {
+      const dexUsage = transactions.reduce((acc, tx) => {
+        acc[tx.dex] = (acc[tx.dex] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+      const mostUsedDex = Object.entries(dexUsage).sort(([,a], [,b]) => b - a)[0];
+      if (!mostUsedDex || mostUsedDex[0] !== 'Uniswap V2') return null;
+
+      return {
+        severity: 'low',
+        values: { count: mostUsedDex[1] },
+        txHashes: transactions.filter(tx => tx.dex === 'Uniswap V2').map(tx => tx.hash),
+      };
+    },
+  },
+
+  slippage_unmeasured: {
+    category: 'data_quality',
+    template: 'Slippage could not be measured - no historical reference prices were available for {count} swaps',
+    evaluate: ({ comparison }) => comparison.detailedComparisons.length > 0 && comparison.averageSlippageBps === null
+      ? {
+        severity: 'info',
+        values: { count: comparison.unmeasuredSlippageCount },
+        txHashes: hashes(comparison.detailedComparisons),
+      }
+      : null,
+  },
+
+  high_slippage: {
+    category: 'slippage',
+    template: 'Your average slippage is {averageBps} bps - consider using limit orders or splitting large trades',
+    evaluate: context => context.comparison.averageSlippageBps !== null && context.comparison.averageSlippageBps > HIGH_SLIPPAGE_BPS
+      ? slippageMatch(context, 'high', HIGH_SLIPPAGE_BPS)
+      : null,
+  },
+
+  elevated_slippage: {
+    category: 'slippage',
+    template: 'Your average slippage is {averageBps} bps - consider adjusting slippage tolerance or timing trades during less volatile periods',
+    evaluate: context => {
+      const average = context.comparison.averageSlippageBps;
+      return average !== null && average > ELEVATED_SLIPPAGE_BPS && average <= HIGH_SLIPPAGE_BPS
+        ? slippageMatch(context, 'medium', ELEVATED_SLIPPAGE_BPS)
+        : null;
+    },
+  },
+
+  suboptimal_routes: {
+    category: 'routing',
+    template: '{count} of {total} compared swaps used routes that cost more gas than the best alternative - consider using DEX aggregators',
+    evaluate: ({ comparison }) => {
+      const suboptimal = comparison.detailedComparisons.filter(item => item.gasDifference > 0);
+      if (suboptimal.length === 0 || suboptimal.length <= comparison.detailedComparisons.length * SUBOPTIMAL_ROUTE_SHARE) return null;
+
+      return {
+        severity: 'medium',
+        values: { count: suboptimal.length, total: comparison.detailedComparisons.length },
+        estimatedImpactUSD: sumUSD(suboptimal.map(item => item.gasDifferenceUSD)),
+        txHashes: hashes(suboptimal),
+      };
+    },
+  },
+
+  low_confidence_comparisons: {
+    category: 'data_quality',
+    template: "{count} comparisons used current-time quotes only (low confidence) - configure SIMULATION_RPC_URL or an archive RPC endpoint to evaluate routes at the swap's block",
+    evaluate: ({ comparison }) => {
+      const lowConfidence = comparison.detailedComparisons.filter(item => item.counterfactual.method === 'current_quote');
+      return lowConfidence.length > 0
+        ? { severity: 'info', values: { count: lowConfidence.length }, txHashes: hashes(lowConfidence) }
+        : null;
+    },
+  },
+
+  high_value_trades: {
+    category: 'strategy',
+    template: '{count} of your trades were worth more than ${threshold} - for high-value trades, consider professional trading interfaces with better routing',
+    evaluate: ({ transactions }) => {
+      const highValue = transactions.filter(tx => (tx.usd_value || 0) > HIGH_VALUE_TRADE_USD);
+      return highValue.length > 0
+        ? {
+          severity: 'info',
+          values: { count: highValue.length, threshold: HIGH_VALUE_TRADE_USD.toLocaleString('en-US') },
+          txHashes: highValue.map(tx => tx.hash),
+        }
+        : null;
+    },
+  },
+
+  sandwiched_swaps: {
+    category: 'mev',
+    template: '{count} of your swaps were sandwiched{extracted} - send swaps through a private RPC such as Flashbots Protect or MEV Blocker, or use MEV-protected routing like CoW Swap or 1inch Fusion',
+    evaluate: context => mevMatch(context, 'sandwich', 'high'),
+  },
+
+  backrun_swaps: {
+    category: 'mev',
+    template: '{count} of your swaps were back-run by arbitrageurs - an MEV-sharing RPC such as MEV Blocker can refund part of that value, and splitting large swaps reduces the price impact they capture',
+    evaluate: context => mevMatch(context, 'backrun', 'medium'),
+  },
+
+  unlimited_approvals: {
+    category: 'approvals',
+    template: '{count} unlimited allowances are still open to swap contracts ({allowances}) - revoke the ones you no longer use so a compromised router cannot drain those tokens',
+    evaluate: ({ report }) => {
+      const unlimited = report?.gasOverhead.allowances?.outstanding.filter(allowance => allowance.unlimited) ?? [];
+      if (!report || unlimited.length === 0) return null;
+
+      const described = unlimited.slice(0, 3).map(allowance => `${allowance.token} to ${allowance.spenderName}`);
+      // The approvals that granted them, where the history includes them
+      const granted = report.gasOverhead.transactions.filter(tx => unlimited.some(allowance =>
+        allowance.chainId === tx.chain_id &&
+        allowance.tokenAddress === tx.token_address?.toLowerCase() &&
+        allowance.spender === tx.spender?.toLowerCase()
+      ));
+
+      return {
+        severity: 'medium',
+        values: {
+          count: unlimited.length,
+          allowances: `${described.join(', ')}${unlimited.length > 3 ? ` and ${unlimited.length - 3} more` : ''}`,
+        },
+        txHashes: Array.from(new Set(granted.map(tx => tx.hash))),
+      };
+    },
+  },
+
+  low_efficiency: {
+    category: 'efficiency',
+    template: 'Your trading efficiency score of {score}/100 is below average - consider using DEX aggregators',
+    evaluate: ({ report }) => report && report.efficiencyScore < 50
+      ? { severity: 'high', values: { score: report.efficiencyScore } }
+      : null,
+  },
+
+  moderate_efficiency: {
+    category: 'efficiency',
+    template: "There's room for improvement in your trading efficiency score of {score}/100",
+    evaluate: ({ report }) => report && report.efficiencyScore >= 50 && report.efficiencyScore < 70
+      ? { severity: 'low', values: { score: report.efficiencyScore } }
+      : null,
+  },
+
+  excellent_efficiency: {
+    category: 'efficiency',
+    template: "Excellent trading efficiency ({score}/100) - you're doing great",
+    evaluate: ({ report }) => report && report.efficiencyScore >= 90
+      ? { severity: 'info', values: { score: report.efficiencyScore } }
+      : null,
+  },
+
+  gas_timing: {
+    category: 'timing',
+    template: 'Waiting up to {windowHours} hours for the cheapest hour would have saved {savings} ({share} of the gas spent) on {swaps} of {analyzed} swaps; {slot} was your most expensive time to trade',
+    evaluate: ({ report }) => {
+      const timing = report?.gasTiming;
+      const swaps = timing?.swaps.filter(swap => swap.potentialSavingsNative > 0) ?? [];
+      if (!timing || swaps.length === 0) return null;
+
+      const costliest = [...timing.buckets]
+        .sort((a, b) => b.potentialSavingsUSD - a.potentialSavingsUSD || (b.averageBaseFeePercentile ?? 0) - (a.averageBaseFeePercentile ?? 0))[0];
+      return {
+        severity: (timing.savingsPercentage ?? 0) >= COSTLY_TIMING_SHARE ? 'medium' : 'low',
+        values: {
+          windowHours: timing.windowHours,
+          savings: formatNativeAmounts(timing.potentialSavingsNative),
+          share: timing.savingsPercentage !== null ? `${timing.savingsPercentage.toFixed(1)}%` : 'an unpriced share',
+          swaps: swaps.length,
+          analyzed: timing.swapsAnalyzed,
+          slot: costliest.slot,
+        },
+        estimatedImpactUSD: timing.potentialSavingsUSD,
+        txHashes: hashes(swaps),
+      };
+    },
+  },
+
+  // Generic advice for when the base fee history around the swaps could not be read
+  high_gas_price: {
+    category: 'timing',
+    template: 'Your swaps paid {averageGwei} gwei on average - consider timing trades during lower gas periods (weekends, early morning UTC)',
+    evaluate: ({ report, transactions }) => report && report.gasTiming.swapsAnalyzed === 0 && report.averageGasPrice > HIGH_GAS_PRICE_WEI
+      ? {
+        severity: 'medium',
+        values: { averageGwei: (report.averageGasPrice / 1e9).toFixed(1) },
+        txHashes: transactions.filter(tx => tx.gas_price > HIGH_GAS_PRICE_WEI).map(tx => tx.hash),
+      }
+      : null,
+  },
+
+  low_gas_price: {
+    category: 'timing',
+    template: 'Great job timing your trades during low gas periods ({averageGwei} gwei on average)',
+    evaluate: ({ report, transactions }) => report && transactions.length > 0 && report.averageGasPrice < LOW_GAS_PRICE_WEI
+      ? { severity: 'info', values: { averageGwei: (report.averageGasPrice / 1e9).toFixed(1) } }
+      : null,
+  },
+
+  high_volume: {
+    category: 'strategy',
+    template: 'For high-volume trading (${volume}), consider professional tools like DeFiSaver or Instadapp',
+    evaluate: ({ report }) => report && report.totalVolumeUSD > HIGH_VOLUME_USD
+      ? { severity: 'info', values: { volume: report.totalVolumeUSD.toFixed(2) } }
+      : null,
+  },
+
+  small_trades: {
+    category: 'gas',
+    template: 'Your swaps totalled only ${volume} - for small trades, consider batching transactions to save on gas costs',
+    evaluate: ({ report, transactions }) => report && transactions.length > 0 && report.totalVolumeUSD < SMALL_VOLUME_USD
+      ? {
+        severity: 'low',
+        values: { volume: report.totalVolumeUSD.toFixed(2) },
+        txHashes: transactions.map(tx => tx.hash),
+      }
+      : null,
+  },
+
+  single_venue: {
+    category: 'venue',
+    template: 'All of your swaps went through {dex} - consider diversifying across multiple DEXes for better rates and reduced slippage',
+    evaluate: ({ report, transactions }) => {
+      const venues = new Set(transactions.map(tx => tx.dex));
+      return report && venues.size === 1
+        ? { severity: 'low', values: { dex: transactions[0].dex } }
+        : null;
+    },
+  },
+
+  frequent_trading: {
+    category: 'strategy',
+    template: 'With {count} swaps in this window, consider Dollar Cost Averaging (DCA) strategies for frequent trading',
+    evaluate: ({ report, transactions }) => report && transactions.length > FREQUENT_TRADING_SWAPS
+      ? { severity: 'info', values: { count: transactions.length } }
+      : null,
+  },
+};
@@ -0,0 +1,120 @@
+import { EventEmitter } from 'node:events';
+import { getUserTransactions, generateSwapReport } from '../tools/index.js';
+import { CHAINS, getChain, parseChainIds } from '../utils/chains.js';
+import { resolveWalletInput, validateWalletInput } from '../utils/validation.js';
+import type { SwapReportData, WalletResourceKind, WalletResourceRef } from '../types/index.js';
+
+const URI_SCHEME = 'defi://';
+const RESOURCE_TRANSACTION_LIMIT = 50;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'defi://{chain}/wallet/{address}/transactions',
+    name: 'Wallet swap history',
+    description: 'Recent swap transactions for a wallet. {chain} is a chain ID or name (e.g. 1, arbitrum), or a comma-separated list of them.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'defi://{chain}/wallet/{address}/report',
+    name: 'Wallet swap efficiency report',
+    description: 'The most recent swap efficiency report for a wallet, generated on first read if none exists yet.',
+    mimeType: 'application/json',
+  },
+];
+
+// Latest report per resource URI, kept for the lifetime of the process
+const latestReports = new Map<string, SwapReportData>();
+const reportEvents = new EventEmitter();
+
+function chainSegmentToId(segment: string): number {
+  const byName = Object.values(CHAINS).find(
+    chain => chain.duneBlockchain === segment.toLowerCase() || chain.name.toLowerCase() === segment.toLowerCase()
+  );
+  return byName ? byName.chainId : getChain(parseInt(segment, 10)).chainId;
+}
+
+export function buildResourceUri(chainIds: number[], walletAddress: string, kind: WalletResourceKind): string {
+  const chains = [...chainIds].sort((a, b) => a - b).join(',');
+  return `${URI_SCHEME}${chains}/wallet/${walletAddress.toLowerCase()}/${kind}`;
+}
+
+export function parseResourceUri(uri: string): WalletResourceRef {
+  const match = uri.match(/^defi:\/\/([^/]+)\/wallet\/([^/]+)\/(transactions|report)$/);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  const [, chainSegment, walletAddress, kind] = match;
+  const chainIds = parseChainIds(decodeURIComponent(chainSegment).split(',').map(chainSegmentToId));
+
+  return { chainIds, walletAddress, kind: kind as WalletResourceKind };
+}
+
+// Remember a freshly generated report and notify listeners that its resource changed
+export function recordReport(report: SwapReportData): string {
+  const uri = buildResourceUri(report.chainIds, report.wallet, 'report');
+  const isNew = !latestReports.has(uri);
+  latestReports.set(uri, report);
+  reportEvents.emit('report', uri, isNew);
+  return uri;
+}
+
+export function onReportRecorded(listener: (uri: string, isNew: boolean) => void): () => void {
+  reportEvents.on('report', listener);
+  return () => reportEvents.off('report', listener);
+}
+
+// Concrete resources for every wallet that has a report in this session
+export function listWalletResources() {
+  return Array.from(latestReports.entries()).flatMap(([uri, report]) => {
+    const chainNames = report.chainIds.map(chainId => getChain(chainId).name).join(', ');
+    return [
+      {
+        uri,
+        name: `Swap report for ${report.wallet} (${chainNames})`,
+        description: `Generated at ${report.reportGeneratedAt}`,
+        mimeType: 'application/json',
+      },
+      {
+        uri: buildResourceUri(report.chainIds, report.wallet, 'transactions'),
+        name: `Swap history for ${report.wallet} (${chainNames})`,
+        mimeType: 'application/json',
+      },
+    ];
+  });
+}
+
+// Canonical form of a resource URI: numeric chain ids and the resolved, lowercased address
+export async function canonicalizeResourceUri(uri: string): Promise<string> {
+  const { chainIds, walletAddress, kind } = parseResourceUri(uri);
+  const wallet = await resolveWalletInput(validateWalletInput(walletAddress, 'address'));
+  return buildResourceUri(chainIds, wallet.address, kind);
+}
+
+export async function readWalletResource(uri: string) {
+  const { chainIds, walletAddress, kind } = parseResourceUri(uri);
+  const wallet = await resolveWalletInput(validateWalletInput(walletAddress, 'address'));
+
+  let data: unknown;
+  if (kind === 'transactions') {
+    data = await getUserTransactions(wallet.address, RESOURCE_TRANSACTION_LIMIT, chainIds);
+  } else {
+    const canonicalUri = buildResourceUri(chainIds, wallet.address, 'report');
+    data = latestReports.get(canonicalUri);
+    if (!data) {
+      const report = await generateSwapReport(wallet.address, chainIds, { ensName: wallet.ensName });
+      recordReport(report);
+      data = report;
+    }
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,21 @@
+import { getDuneData, getDuneOverhead } from '../utils/api.js';
+import type { OverheadTransaction, SwapDataSource, SwapPage, SwapQuery } from '../types/index.js';
+
+// Swaps from the hosted Dune DEX trades query (requires DUNE_API_KEY; Ethereum only unless
+// DUNE_QUERY_ID names a query with a blockchain parameter). DEX trades only cover successful
+// swaps; failed attempts and approvals need the query in DUNE_OVERHEAD_QUERY_ID.
+export function createDuneSource(): SwapDataSource {
+  return {
+    name: 'dune',
+    async fetchSwaps(query: SwapQuery): Promise<SwapPage> {
+      return getDuneData(query.walletAddress, query.limit, query.chainId, {
+        range: query.range,
+        cursor: query.cursor,
+      });
+    },
+    fetchOverhead: process.env.DUNE_OVERHEAD_QUERY_ID
+      ? async (query: SwapQuery): Promise<OverheadTransaction[]> =>
+        getDuneOverhead(query.walletAddress, query.limit, query.chainId, query.range)
+      : undefined,
+  };
+}
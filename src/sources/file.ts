@@ -0,0 +1,194 @@
+import { readFile } from 'node:fs/promises';
+import { mapDuneOverheadRow, mapDuneRow } from '../utils/api.js';
+import { getChain } from '../utils/chains.js';
+import { isInRange } from '../utils/range.js';
+import type { DuneOverheadRow, DuneSwapRow, OverheadTransaction, SwapDataSource, SwapPage, SwapQuery, SwapTransaction } from '../types/index.js';
+
+type FileRow = Partial<DuneSwapRow> & Partial<DuneOverheadRow> & Omit<Partial<SwapTransaction>, 'chain_id'> & {
+  chain_id?: number | string;
+  status?: string;
+  to?: string;
+  token?: string;
+  spender?: string;
+};
+
+const FAILED_STATUSES = ['failed', 'reverted', '0', 'false'];
+
+// Parse CSV text with a header row into objects (supports quoted fields and escaped quotes)
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(value => value.trim().length > 0));
+  if (!header) return [];
+
+  return rows.map(values =>
+    Object.fromEntries(header.map((column, index) => [column.trim(), values[index]?.trim() ?? '']))
+  );
+}
+
+// Rows may be Dune-shaped (tx_hash, token_sold_amount, ...) or already SwapTransaction-shaped
+function toSwapTransaction(row: FileRow, chainId: number): SwapTransaction {
+  if (row.tx_hash) {
+    return mapDuneRow(row, chainId);
+  }
+
+  return {
+    hash: row.hash || 'unknown',
+    chain_id: chainId,
+    block_number: row.block_number ? Number(row.block_number) : undefined,
+    timestamp: row.timestamp || new Date().toISOString(),
+    from_token: row.from_token || 'UNKNOWN',
+    to_token: row.to_token || 'UNKNOWN',
+    from_token_address: row.from_token_address || '',
+    to_token_address: row.to_token_address || '',
+    from_amount: Number(row.from_amount || 0),
+    to_amount: Number(row.to_amount || 0),
+    gas_used: Number(row.gas_used || 0),
+    gas_price: Number(row.gas_price || 0),
+    base_fee_per_gas: row.base_fee_per_gas ? Number(row.base_fee_per_gas) : undefined,
+    dex: row.dex || 'unknown',
+    usd_value: row.usd_value !== undefined ? Number(row.usd_value) : undefined,
+    trader: row.trader || undefined,
+    recipient: row.recipient || undefined,
+    log_index: row.log_index !== undefined && String(row.log_index) !== '' ? Number(row.log_index) : undefined,
+  };
+}
+
+// Rows without a kind are swaps; a failed status turns a swap row into a failed attempt
+function rowKind(row: FileRow): string {
+  const kind = row.kind?.toLowerCase() || 'swap';
+  return kind === 'swap' && FAILED_STATUSES.includes(row.status?.toLowerCase() ?? '') ? 'failed_swap' : kind;
+}
+
+function toOverheadTransaction(row: FileRow, chainId: number): OverheadTransaction | null {
+  return mapDuneOverheadRow({
+    tx_hash: row.tx_hash || row.hash,
+    block_time: row.block_time || row.timestamp,
+    block_number: row.block_number !== undefined ? String(row.block_number) : undefined,
+    kind: rowKind(row),
+    tx_to: row.tx_to || row.to,
+    token_address: row.token_address || row.from_token_address || row.token_sold_address,
+    token_symbol: row.token_symbol || row.token || row.from_token || row.token_sold_symbol,
+    spender: row.spender,
+    amount: row.amount,
+    gas_used: row.gas_used !== undefined ? String(row.gas_used) : undefined,
+    gas_price: row.gas_price !== undefined ? String(row.gas_price) : undefined,
+    base_fee_per_gas: row.base_fee_per_gas !== undefined ? String(row.base_fee_per_gas) : undefined,
+  }, chainId);
+}
+
+function rowMatchesChain(row: FileRow, chainId: number): boolean {
+  if (row.chain_id !== undefined && row.chain_id !== '') {
+    return Number(row.chain_id) === chainId;
+  }
+  if (row.blockchain) {
+    return row.blockchain.toLowerCase() === getChain(chainId).duneBlockchain;
+  }
+  // Files without chain information are assumed to hold a single chain's swaps
+  return true;
+}
+
+function rowMatchesWallet(row: FileRow, walletAddress: string): boolean {
+  return !row.trader || row.trader.toLowerCase() === walletAddress.toLowerCase();
+}
+
+async function loadRows(path: string): Promise<FileRow[]> {
+  const content = await readFile(path, 'utf8');
+
+  if (path.toLowerCase().endsWith('.csv')) {
+    return parseCsv(content) as FileRow[];
+  }
+
+  const parsed = JSON.parse(content);
+  const rows = Array.isArray(parsed) ? parsed : parsed.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error(`Expected a JSON array or an object with a "rows" array in ${path}`);
+  }
+  return rows;
+}
+
+// Swaps from a static JSON or CSV export, e.g. a downloaded Dune result or a hand-made fixture
+export function createFileSource(path: string): SwapDataSource {
+  return {
+    name: 'file',
+    async fetchSwaps(query: SwapQuery): Promise<SwapPage> {
+      try {
+        const rows = await loadRows(path);
+
+        // The cursor is simply the offset into the filtered, newest-first rows
+        const offset = query.cursor ? parseInt(query.cursor, 10) || 0 : 0;
+        const swaps = rows
+          .filter(row => rowKind(row) === 'swap')
+          .filter(row => rowMatchesChain(row, query.chainId) && rowMatchesWallet(row, query.walletAddress))
+          .map(row => toSwapTransaction(row, query.chainId))
+          .filter(tx => isInRange(tx, query.range))
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+        const nextOffset = offset + query.limit;
+        return {
+          swaps: swaps.slice(offset, nextOffset),
+          nextCursor: nextOffset < swaps.length ? String(nextOffset) : undefined,
+        };
+      } catch (error) {
+        console.error(`Swap file error (${path}):`, error);
+        throw new Error(`Failed to read swap data file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    // Rows with a kind column (failed_swap, approval, permit2_approval, permit2_permit) or a failed status
+    async fetchOverhead(query: SwapQuery): Promise<OverheadTransaction[]> {
+      try {
+        const rows = await loadRows(path);
+        return rows
+          .filter(row => rowKind(row) !== 'swap')
+          .filter(row => rowMatchesChain(row, query.chainId) && rowMatchesWallet(row, query.walletAddress))
+          .map(row => toOverheadTransaction(row, query.chainId))
+          .filter((tx): tx is OverheadTransaction => tx !== null && isInRange(tx, query.range))
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+          .slice(0, query.limit);
+      } catch (error) {
+        console.error(`Swap file error (${path}):`, error);
+        throw new Error(`Failed to read swap data file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
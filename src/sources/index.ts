@@ -0,0 +1,69 @@
+import { createDuneSource } from './dune.js';
+import { createRpcSource } from './rpc.js';
+import { createFileSource } from './file.js';
+import { withCache, getCacheTtl } from '../utils/cache.js';
+import type { SwapDataSource, SwapQuery } from '../types/index.js';
+
+export const SWAP_DATA_SOURCES = ['dune', 'rpc', 'file'] as const;
+
+let activeSource: SwapDataSource | undefined;
+let uncachedSource: SwapDataSource | undefined;
+
+// Build the swap data source selected by SWAP_DATA_SOURCE (default: dune)
+export function createSwapDataSource(name: string = process.env.SWAP_DATA_SOURCE || 'dune'): SwapDataSource {
+  switch (name.toLowerCase()) {
+    case 'dune':
+      return createDuneSource();
+    case 'rpc':
+      return createRpcSource();
+    case 'file': {
+      const path = process.env.SWAP_DATA_FILE;
+      if (!path) {
+        throw new Error('SWAP_DATA_FILE not found in environment variables');
+      }
+      return createFileSource(path);
+    }
+    default:
+      throw new Error(`Unknown swap data source "${name}". Expected one of: ${SWAP_DATA_SOURCES.join(', ')}`);
+  }
+}
+
+function queryCacheKey(source: SwapDataSource, query: SwapQuery): unknown[] {
+  return [
+    source.name,
+    query.chainId,
+    query.walletAddress.toLowerCase(),
+    query.limit,
+    query.range ?? null,
+    query.cursor ?? null,
+  ];
+}
+
+// Cache fetched pages per backend, chain, wallet and query parameters (range and cursor included)
+export function withSwapCache(source: SwapDataSource): SwapDataSource {
+  const fetchOverhead = source.fetchOverhead?.bind(source);
+  return {
+    name: source.name,
+    fetchSwaps(query: SwapQuery) {
+      return withCache('swaps', queryCacheKey(source, query), getCacheTtl('swaps'), () => source.fetchSwaps(query));
+    },
+    fetchOverhead: fetchOverhead
+      ? (query: SwapQuery) => withCache('swaps', ['overhead', ...queryCacheKey(source, query)], getCacheTtl('swaps'), () => fetchOverhead(query))
+      : undefined,
+  };
+}
+
+// The cached source by default; callers that need swaps the moment they land (the wallet watch
+// poller) read the backend directly
+export function getSwapDataSource(cached: boolean = true): SwapDataSource {
+  if (!activeSource || !uncachedSource) {
+    uncachedSource = createSwapDataSource();
+    activeSource = withSwapCache(uncachedSource);
+  }
+  return cached ? activeSource : uncachedSource;
+}
+
+export function setSwapDataSource(source: SwapDataSource): void {
+  activeSource = source;
+  uncachedSource = source;
+}
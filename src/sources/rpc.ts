@@ -0,0 +1,453 @@
+import { rpcCall, ethCall } from '../utils/rpc.js';
+import { toWords, decodeUint256, decodeInt256, decodeAddress, encodeAddress, encodeCall } from '../utils/abi.js';
+import { resolveToken, fromBaseUnits } from '../utils/tokens.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { PERMIT2_ADDRESS } from '../data/routers.js';
+import type { OverheadTransaction, SwapDataSource, SwapPage, SwapQuery, SwapRange, SwapTransaction } from '../types/index.js';
+
+// Swap event topics
+const UNISWAP_V2_SWAP = '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+const UNISWAP_V3_SWAP = '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67';
+const CURVE_TOKEN_EXCHANGE = '0x8b3e96f2b889fa771c53c981b40daf005f63f637f1869f707052d15a3dd97140';
+const CURVE_TOKEN_EXCHANGE_UNDERLYING = '0xd013ca23e77a65003c2c659c5442c00c805371b7fc1ebd4c206c41d1536bd90b';
+const CURVE_TOKEN_EXCHANGE_CRYPTO = '0xb2e76ae99761dc136e598d4a629bb347eccb9532a5f8bbd72e18467c3c34cc98';
+export const BALANCER_V2_SWAP = '0x2170c741c41531aec20e7c107c24eecfdd15e69c9bb0a8dd37b1840b9e0b207b';
+
+// Pool-emitted swap events (Balancer V2 swaps are emitted by the Vault)
+export const POOL_SWAP_TOPICS = [
+  UNISWAP_V2_SWAP,
+  UNISWAP_V3_SWAP,
+  CURVE_TOKEN_EXCHANGE,
+  CURVE_TOKEN_EXCHANGE_UNDERLYING,
+  CURVE_TOKEN_EXCHANGE_CRYPTO,
+];
+
+// Balancer V2 Vault is deployed at the same address on every supported chain
+export const BALANCER_V2_VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+
+// ERC-20 Transfer(from, to, value), used to find the wallet's Balancer Vault swaps
+const ERC20_TRANSFER = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// ERC-20 Approval(owner, spender, value); ERC-721 shares the topic but indexes the token id too
+const ERC20_APPROVAL = '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925';
+const PERMIT2_APPROVAL = '0xda9fa7c1b00402c17d0161b249b1ab8bbec047c5a52207b9c112deffd817036b';
+const PERMIT2_PERMIT = '0xc6a377bfc4eb120024a8ac08eef205be16b817020812c73223e81d1bdb9708ec';
+const APPROVE_SELECTOR = '0x095ea7b3';
+
+// Pool view function selectors
+const TOKEN0_SELECTOR = '0x0dfe1681';
+const TOKEN1_SELECTOR = '0xd21220a7';
+const CURVE_COINS_SELECTOR = '0xc6610657';
+const CURVE_COINS_INT128_SELECTOR = '0x23746eb8';
+const CURVE_UNDERLYING_COINS_SELECTOR = '0xb9947eb0';
+const CURVE_UNDERLYING_COINS_INT128_SELECTOR = '0xb739953e';
+
+const DEFAULT_SCAN_BLOCKS = 50000;
+const DEFAULT_LOG_CHUNK_SIZE = 5000;
+const LOOKUP_CONCURRENCY = 8;
+
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+}
+
+export interface DecodedSwap {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  dex: string;
+  recipient?: string;
+}
+
+const poolTokenLookups = new Map<string, Promise<string>>();
+
+// Read and memoize a token address exposed by a pool (token0(), coins(i), ...)
+function poolToken(chainId: number, pool: string, selectors: string[], index?: bigint): Promise<string> {
+  const key = `${chainId}:${pool.toLowerCase()}:${selectors[0]}:${index ?? ''}`;
+  if (!poolTokenLookups.has(key)) {
+    const lookup = (async () => {
+      for (const selector of selectors) {
+        try {
+          const data = index === undefined ? selector : encodeCall(selector, [index]);
+          const result = await ethCall(chainId, pool, data);
+          if (result && result !== '0x') return decodeAddress(result.slice(0, 66));
+        } catch (error) {
+          // Older pools only implement the int128 variant; try the next selector
+        }
+      }
+      throw new Error(`Could not read token ${index ?? ''} from pool ${pool}`);
+    })();
+    poolTokenLookups.set(key, lookup);
+  }
+  return poolTokenLookups.get(key)!;
+}
+
+export async function decodeSwapLog(chainId: number, log: RpcLog): Promise<DecodedSwap | null> {
+  const topic = log.topics[0]?.toLowerCase();
+  const words = toWords(log.data);
+
+  if (topic === UNISWAP_V2_SWAP) {
+    const [amount0In, amount1In, amount0Out, amount1Out] = words.map(decodeUint256);
+    const [token0, token1] = await Promise.all([
+      poolToken(chainId, log.address, [TOKEN0_SELECTOR]),
+      poolToken(chainId, log.address, [TOKEN1_SELECTOR]),
+    ]);
+    const recipient = decodeAddress(log.topics[2]);
+    return amount0In > 0n
+      ? { tokenIn: token0, tokenOut: token1, amountIn: amount0In, amountOut: amount1Out, dex: 'Uniswap V2', recipient }
+      : { tokenIn: token1, tokenOut: token0, amountIn: amount1In, amountOut: amount0Out, dex: 'Uniswap V2', recipient };
+  }
+
+  if (topic === UNISWAP_V3_SWAP) {
+    // Positive amounts flow into the pool, negative amounts flow out to the recipient
+    const amount0 = decodeInt256(words[0]);
+    const amount1 = decodeInt256(words[1]);
+    const [token0, token1] = await Promise.all([
+      poolToken(chainId, log.address, [TOKEN0_SELECTOR]),
+      poolToken(chainId, log.address, [TOKEN1_SELECTOR]),
+    ]);
+    const recipient = decodeAddress(log.topics[2]);
+    return amount0 > 0n
+      ? { tokenIn: token0, tokenOut: token1, amountIn: amount0, amountOut: -amount1, dex: 'Uniswap V3', recipient }
+      : { tokenIn: token1, tokenOut: token0, amountIn: amount1, amountOut: -amount0, dex: 'Uniswap V3', recipient };
+  }
+
+  if (topic === CURVE_TOKEN_EXCHANGE || topic === CURVE_TOKEN_EXCHANGE_UNDERLYING || topic === CURVE_TOKEN_EXCHANGE_CRYPTO) {
+    const soldId = decodeUint256(words[0]);
+    const boughtId = decodeUint256(words[2]);
+    const selectors = topic === CURVE_TOKEN_EXCHANGE_UNDERLYING
+      ? [CURVE_UNDERLYING_COINS_SELECTOR, CURVE_UNDERLYING_COINS_INT128_SELECTOR]
+      : [CURVE_COINS_SELECTOR, CURVE_COINS_INT128_SELECTOR];
+    const [tokenIn, tokenOut] = await Promise.all([
+      poolToken(chainId, log.address, selectors, soldId),
+      poolToken(chainId, log.address, selectors, boughtId),
+    ]);
+    return { tokenIn, tokenOut, amountIn: decodeUint256(words[1]), amountOut: decodeUint256(words[3]), dex: 'Curve', recipient: decodeAddress(log.topics[1]) };
+  }
+
+  if (topic === BALANCER_V2_SWAP) {
+    return {
+      tokenIn: decodeAddress(log.topics[2]),
+      tokenOut: decodeAddress(log.topics[3]),
+      amountIn: decodeUint256(words[0]),
+      amountOut: decodeUint256(words[1]),
+      dex: 'Balancer V2',
+    };
+  }
+
+  return null;
+}
+
+export function getLogs(chainId: number, filter: Record<string, unknown>): Promise<RpcLog[]> {
+  return rpcCall<RpcLog[]>(chainId, 'eth_getLogs', [filter]);
+}
+
+// Binary search for the first block mined at or after the given time
+async function findBlockAtOrAfter(chainId: number, time: string, latestBlock: number): Promise<number> {
+  const target = Math.floor(new Date(time).getTime() / 1000);
+  const timestampOf = async (block: number) => {
+    const result = await rpcCall<any>(chainId, 'eth_getBlockByNumber', [`0x${block.toString(16)}`, false]);
+    return parseInt(result.timestamp, 16);
+  };
+
+  let low = 0;
+  let high = latestBlock + 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (await timestampOf(middle) < target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Resolve the requested range to an inclusive block window; without a lower bound only the
+// most recent `scanBlocks` blocks below the upper bound are scanned
+async function resolveBlockWindow(
+  chainId: number,
+  latestBlock: number,
+  range: SwapRange | undefined,
+  scanBlocks: number
+): Promise<{ earliestBlock: number; latestBlock: number }> {
+  let upper = latestBlock;
+  if (range?.toBlock !== undefined) upper = Math.min(upper, range.toBlock);
+  if (range?.to !== undefined) {
+    const afterTo = new Date(new Date(range.to).getTime() + 1000).toISOString();
+    upper = Math.min(upper, (await findBlockAtOrAfter(chainId, afterTo, latestBlock)) - 1);
+  }
+
+  let lower: number | undefined;
+  if (range?.fromBlock !== undefined) lower = range.fromBlock;
+  if (range?.from !== undefined) {
+    lower = Math.max(lower ?? 0, await findBlockAtOrAfter(chainId, range.from, latestBlock));
+  }
+
+  return {
+    earliestBlock: lower ?? Math.max(0, upper - scanBlocks + 1),
+    latestBlock: upper,
+  };
+}
+
+// Cursor "<block>:<logIndex>:<earliestBlock>" resumes strictly below the last consumed log
+function parseCursor(cursor: string): { block: number; logIndex: number; earliestBlock: number } {
+  const [block, logIndex, earliestBlock] = cursor.split(':').map(part => parseInt(part, 10));
+  if ([block, logIndex, earliestBlock].some(value => isNaN(value))) {
+    throw new Error(`Invalid RPC cursor: ${cursor}`);
+  }
+  return { block, logIndex, earliestBlock };
+}
+
+// Transactions, receipts and blocks memoized for the duration of one scan
+function createLookups(chainId: number) {
+  const transactions = new Map<string, Promise<any>>();
+  const receipts = new Map<string, Promise<any>>();
+  const blocks = new Map<string, Promise<any>>();
+  const memo = <T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> => {
+    if (!cache.has(key)) cache.set(key, load());
+    return cache.get(key)!;
+  };
+
+  return {
+    getTransaction: (hash: string) => memo(transactions, hash, () => rpcCall(chainId, 'eth_getTransactionByHash', [hash])),
+    getReceipt: (hash: string) => memo(receipts, hash, () => rpcCall(chainId, 'eth_getTransactionReceipt', [hash])),
+    getBlock: (number: string) => memo(blocks, number, () => rpcCall(chainId, 'eth_getBlockByNumber', [number, false])),
+  };
+}
+
+// Balancer's Swap event has no wallet topic, so find the Vault's token transfers to the wallet instead
+// and read the Vault swaps from those transactions' receipts. A swap counts when the wallet received
+// its output token, matching the recipient topic used for the other venues; router-mediated swaps
+// that deliver to the wallet are included. Swaps paying out native ETH emit no transfer and are missed.
+async function findBalancerSwapLogs(
+  chainId: number,
+  range: { fromBlock: string; toBlock: string },
+  wallet: string,
+  lookups: ReturnType<typeof createLookups>
+): Promise<RpcLog[]> {
+  const vault = BALANCER_V2_VAULT.toLowerCase();
+  const transfers = await getLogs(chainId, {
+    ...range,
+    topics: [ERC20_TRANSFER, `0x${encodeAddress(vault)}`, `0x${encodeAddress(wallet)}`],
+  });
+
+  // Tokens the Vault paid out to the wallet, per transaction
+  const received = new Map<string, Set<string>>();
+  for (const transfer of transfers) {
+    const tokens = received.get(transfer.transactionHash) ?? new Set<string>();
+    tokens.add(transfer.address.toLowerCase());
+    received.set(transfer.transactionHash, tokens);
+  }
+
+  const perTransaction = await mapWithConcurrency(Array.from(received.entries()), LOOKUP_CONCURRENCY, async ([hash, tokens]) => {
+    const receipt = await lookups.getReceipt(hash);
+    if (!receipt) return [];
+    return (receipt.logs as RpcLog[]).filter(log =>
+      log.address.toLowerCase() === vault &&
+      log.topics[0]?.toLowerCase() === BALANCER_V2_SWAP &&
+      tokens.has(decodeAddress(log.topics[3]))
+    );
+  });
+  return perTransaction.flat();
+}
+
+// Classify an approval log the wallet's own transaction emitted. Tokens may also emit Approval when a
+// swap spends an allowance, so ERC-20 approvals only count when the transaction called approve() on the token.
+function classifyApproval(log: RpcLog, tx: any): OverheadTransaction['kind'] | null {
+  const topic = log.topics[0]?.toLowerCase();
+  if (topic === PERMIT2_APPROVAL) return 'permit2_approval';
+  if (topic === PERMIT2_PERMIT) return 'permit2_permit';
+  if (topic === ERC20_APPROVAL && log.topics.length === 3) {
+    const calledToken = tx.to?.toLowerCase() === log.address.toLowerCase();
+    return calledToken && tx.input?.startsWith(APPROVE_SELECTOR) ? 'approval' : null;
+  }
+  return null;
+}
+
+// Scans an Ethereum JSON-RPC endpoint (e.g. a local anvil or geth node) for the wallet's
+// Uniswap V2/V3, Curve and Balancer V2 swaps, newest first, and for its approvals.
+export function createRpcSource(
+  scanBlocks: number = parseInt(process.env.RPC_SCAN_BLOCKS || '') || DEFAULT_SCAN_BLOCKS,
+  chunkSize: number = parseInt(process.env.RPC_LOG_CHUNK_SIZE || '') || DEFAULT_LOG_CHUNK_SIZE
+): SwapDataSource {
+  return {
+    name: 'rpc',
+    async fetchSwaps(query: SwapQuery): Promise<SwapPage> {
+      const { chainId, walletAddress, limit } = query;
+      const wallet = walletAddress.toLowerCase();
+      const walletTopic = `0x${encodeAddress(wallet)}`;
+
+      const lookups = createLookups(chainId);
+      const { getTransaction, getReceipt, getBlock } = lookups;
+
+      try {
+        const resume = query.cursor ? parseCursor(query.cursor) : undefined;
+        const window = resume
+          ? { earliestBlock: resume.earliestBlock, latestBlock: resume.block }
+          : await resolveBlockWindow(chainId, parseInt(await rpcCall<string>(chainId, 'eth_blockNumber'), 16), query.range, scanBlocks);
+        const { earliestBlock, latestBlock } = window;
+        const swaps: SwapTransaction[] = [];
+        let lastLog: RpcLog | undefined;
+
+        for (let toBlock = latestBlock; toBlock >= earliestBlock && swaps.length < limit; toBlock -= chunkSize) {
+          const range = {
+            fromBlock: `0x${Math.max(earliestBlock, toBlock - chunkSize + 1).toString(16)}`,
+            toBlock: `0x${toBlock.toString(16)}`,
+          };
+
+          // Uniswap V2 `to` and V3 `recipient` are the second indexed topic, Curve `buyer` the first
+          const [uniswapLogs, curveLogs, balancerLogs] = await Promise.all([
+            getLogs(chainId, { ...range, topics: [[UNISWAP_V2_SWAP, UNISWAP_V3_SWAP], null, walletTopic] }),
+            getLogs(chainId, { ...range, topics: [[CURVE_TOKEN_EXCHANGE, CURVE_TOKEN_EXCHANGE_UNDERLYING, CURVE_TOKEN_EXCHANGE_CRYPTO], walletTopic] }),
+            findBalancerSwapLogs(chainId, range, wallet, lookups),
+          ]);
+
+          const logs = [...uniswapLogs, ...curveLogs, ...balancerLogs]
+            .filter(log => !resume || parseInt(log.blockNumber, 16) < resume.block || parseInt(log.logIndex, 16) < resume.logIndex)
+            .sort((a, b) =>
+              parseInt(b.blockNumber, 16) - parseInt(a.blockNumber, 16) || parseInt(b.logIndex, 16) - parseInt(a.logIndex, 16)
+            );
+
+          for (const log of logs) {
+            if (swaps.length >= limit) break;
+            lastLog = log;
+
+            try {
+              const decoded = await decodeSwapLog(chainId, log);
+              if (!decoded) continue;
+
+              const [tokenIn, tokenOut, receipt, block, tx] = await Promise.all([
+                resolveToken(decoded.tokenIn, chainId),
+                resolveToken(decoded.tokenOut, chainId),
+                getReceipt(log.transactionHash),
+                getBlock(log.blockNumber),
+                getTransaction(log.transactionHash),
+              ]);
+
+              if (!tokenIn || !tokenOut) {
+                console.warn(`Skipping swap in ${log.transactionHash}: unknown token decimals`);
+                continue;
+              }
+
+              swaps.push({
+                hash: log.transactionHash,
+                chain_id: chainId,
+                block_number: parseInt(log.blockNumber, 16),
+                timestamp: new Date(parseInt(block.timestamp, 16) * 1000).toISOString(),
+                from_token: tokenIn.symbol,
+                to_token: tokenOut.symbol,
+                from_token_address: decoded.tokenIn,
+                to_token_address: decoded.tokenOut,
+                from_amount: fromBaseUnits(decoded.amountIn, tokenIn.decimals),
+                to_amount: fromBaseUnits(decoded.amountOut, tokenOut.decimals),
+                gas_used: parseInt(receipt.gasUsed, 16),
+                gas_price: parseInt(receipt.effectiveGasPrice || '0x0', 16),
+                base_fee_per_gas: block.baseFeePerGas ? parseInt(block.baseFeePerGas, 16) : undefined,
+                dex: decoded.dex,
+                trader: tx?.from?.toLowerCase(),
+                recipient: decoded.recipient,
+                log_index: parseInt(log.logIndex, 16),
+              });
+            } catch (error) {
+              console.error(`Error decoding swap log in ${log.transactionHash}:`, error);
+            }
+          }
+        }
+
+        // A full page may have stopped mid-window, so hand back a cursor to continue from
+        const nextCursor = swaps.length >= limit && lastLog
+          ? `${parseInt(lastLog.blockNumber, 16)}:${parseInt(lastLog.logIndex, 16)}:${earliestBlock}`
+          : undefined;
+
+        return { swaps, nextCursor };
+      } catch (error) {
+        console.error('RPC swap scan error:', error);
+        throw new Error(`Failed to scan swaps over JSON-RPC: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    // Approvals and Permit2 usage over the same block window. Reverted transactions emit no logs,
+    // so failed swap attempts are only visible through the Dune or file sources.
+    async fetchOverhead(query: SwapQuery): Promise<OverheadTransaction[]> {
+      const { chainId, walletAddress, limit } = query;
+      const wallet = walletAddress.toLowerCase();
+      const walletTopic = `0x${encodeAddress(wallet)}`;
+      const { getTransaction, getReceipt, getBlock } = createLookups(chainId);
+
+      try {
+        const latest = parseInt(await rpcCall<string>(chainId, 'eth_blockNumber'), 16);
+        const { earliestBlock, latestBlock } = await resolveBlockWindow(chainId, latest, query.range, scanBlocks);
+        const overhead: OverheadTransaction[] = [];
+        const seen = new Set<string>();
+
+        for (let toBlock = latestBlock; toBlock >= earliestBlock && overhead.length < limit; toBlock -= chunkSize) {
+          const range = {
+            fromBlock: `0x${Math.max(earliestBlock, toBlock - chunkSize + 1).toString(16)}`,
+            toBlock: `0x${toBlock.toString(16)}`,
+          };
+
+          // The owner is the first indexed topic of all three events
+          const [approvalLogs, permit2Logs] = await Promise.all([
+            getLogs(chainId, { ...range, topics: [ERC20_APPROVAL, walletTopic] }),
+            getLogs(chainId, { ...range, address: PERMIT2_ADDRESS, topics: [[PERMIT2_APPROVAL, PERMIT2_PERMIT], walletTopic] }),
+          ]);
+
+          const logs = [...approvalLogs, ...permit2Logs].sort((a, b) =>
+            parseInt(b.blockNumber, 16) - parseInt(a.blockNumber, 16) || parseInt(b.logIndex, 16) - parseInt(a.logIndex, 16)
+          );
+
+          for (const log of logs) {
+            if (overhead.length >= limit) break;
+
+            try {
+              const tx = await getTransaction(log.transactionHash);
+              if (tx?.from?.toLowerCase() !== wallet) continue;
+
+              const kind = classifyApproval(log, tx);
+              if (!kind || seen.has(`${log.transactionHash}:${kind}`)) continue;
+              seen.add(`${log.transactionHash}:${kind}`);
+
+              const [receipt, block] = await Promise.all([getReceipt(log.transactionHash), getBlock(log.blockNumber)]);
+              // Permit2 events index the token; ERC-20 approvals are emitted by it
+              const tokenAddress = kind === 'approval' ? log.address.toLowerCase() : decodeAddress(log.topics[2]);
+              const spender = decodeAddress(log.topics[kind === 'approval' ? 2 : 3]);
+              const token = await resolveToken(tokenAddress, chainId);
+              // A permit consumed inside a swap is paid for by that swap
+              const paysGas = kind !== 'permit2_permit' || tx.to?.toLowerCase() === PERMIT2_ADDRESS.toLowerCase();
+
+              overhead.push({
+                hash: log.transactionHash,
+                chain_id: chainId,
+                block_number: parseInt(log.blockNumber, 16),
+                timestamp: new Date(parseInt(block.timestamp, 16) * 1000).toISOString(),
+                kind,
+                to: tx.to?.toLowerCase() ?? '',
+                token: token?.symbol,
+                token_address: tokenAddress,
+                spender,
+                amount: decodeUint256(toWords(log.data)[0] ?? '').toString(),
+                gas_used: paysGas ? parseInt(receipt.gasUsed, 16) : 0,
+                gas_price: parseInt(receipt.effectiveGasPrice || '0x0', 16),
+                base_fee_per_gas: block.baseFeePerGas ? parseInt(block.baseFeePerGas, 16) : undefined,
+              });
+            } catch (error) {
+              console.error(`Error decoding approval log in ${log.transactionHash}:`, error);
+            }
+          }
+        }
+
+        return overhead;
+      } catch (error) {
+        console.error('RPC approval scan error:', error);
+        throw new Error(`Failed to scan approvals over JSON-RPC: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,202 @@
+import { fetchSwapHistory } from './transactions.js';
+import { COMPARISON_LIMIT } from './comparison.js';
+import { getAggregators } from '../aggregators/index.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { requireTokenDecimals, toBaseUnits, fromBaseUnits } from '../utils/tokens.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type {
+  Aggregator,
+  AggregatorComparisonOptions,
+  AggregatorComparisonResult,
+  AggregatorQuoteOutcome,
+  AggregatorStanding,
+  AggregatorTradeComparison,
+  SwapTransaction,
+} from '../types/index.js';
+
+const DEFAULT_COMPARISON_CONCURRENCY = 4;
+
+function getComparisonConcurrency(): number {
+  return parseInt(process.env.COMPARISON_CONCURRENCY || '') || DEFAULT_COMPARISON_CONCURRENCY;
+}
+
+function toBps(value: number): number {
+  return Math.round(value * 1e4 * 100) / 100;
+}
+
+export async function compareWithAggregators(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: AggregatorComparisonOptions = {}
+): Promise<AggregatorComparisonResult> {
+  assertWalletAddress(walletAddress);
+  const aggregators = getAggregators(options.aggregators);
+
+  try {
+    const limit = options.limit ?? COMPARISON_LIMIT;
+    const transactions = options.transactions
+      ? options.transactions.slice(0, limit)
+      : (await fetchSwapHistory(walletAddress, limit, chainIds, options.range)).transactions;
+
+    const results = await mapWithConcurrency(transactions, getComparisonConcurrency(), tx =>
+      compareTrade(tx, walletAddress, aggregators)
+    );
+    const trades = results.filter((trade): trade is AggregatorTradeComparison => trade !== null);
+    const standings = calculateStandings(aggregators, trades);
+
+    return {
+      success: true,
+      wallet: walletAddress,
+      chainIds,
+      aggregators: aggregators.map(aggregator => aggregator.name),
+      totalTransactions: transactions.length,
+      comparedTransactions: trades.length,
+      standings,
+      trades,
+      recommendations: generateRecommendations(trades, standings),
+    };
+  } catch (error) {
+    console.error('Error in aggregator comparison:', error);
+    throw new Error(`Failed to compare with aggregators: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Quote one historical swap on every aggregator; a failing aggregator only affects its own outcome
+async function compareTrade(
+  tx: SwapTransaction,
+  walletAddress: string,
+  aggregators: Aggregator[]
+): Promise<AggregatorTradeComparison | null> {
+  try {
+    if (!tx.from_token_address || !tx.to_token_address) {
+      console.warn(`Skipping transaction ${tx.hash}: missing token addresses`);
+      return null;
+    }
+
+    const [fromDecimals, toDecimals] = await Promise.all([
+      requireTokenDecimals(tx.from_token_address, tx.chain_id),
+      requireTokenDecimals(tx.to_token_address, tx.chain_id),
+    ]);
+    const request = {
+      chainId: tx.chain_id,
+      fromTokenAddress: tx.from_token_address,
+      toTokenAddress: tx.to_token_address,
+      fromDecimals,
+      toDecimals,
+      amount: toBaseUnits(tx.from_amount, fromDecimals),
+      taker: walletAddress,
+    };
+
+    const settled = await Promise.allSettled(aggregators.map(aggregator =>
+      aggregator.supportedChains.includes(tx.chain_id) ? aggregator.quote(request) : Promise.resolve(null)
+    ));
+
+    const quotes: AggregatorQuoteOutcome[] = settled.map((result, index) => {
+      const aggregator = aggregators[index].name;
+      if (result.status === 'rejected') {
+        return {
+          aggregator,
+          status: 'failed',
+          amountOut: null,
+          estimatedGas: null,
+          route: null,
+          differenceBps: null,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        };
+      }
+      if (result.value === null) {
+        return { aggregator, status: 'unsupported', amountOut: null, estimatedGas: null, route: null, differenceBps: null };
+      }
+
+      const amountOut = fromBaseUnits(result.value.toAmount, toDecimals);
+      return {
+        aggregator,
+        status: 'quoted',
+        amountOut,
+        estimatedGas: result.value.estimatedGas,
+        route: result.value.route,
+        differenceBps: tx.to_amount > 0 ? toBps((amountOut - tx.to_amount) / tx.to_amount) : null,
+      };
+    });
+
+    // Positive improvement means the best aggregator would have returned more than the swap did
+    const quoted = quotes
+      .filter(quote => quote.status === 'quoted' && quote.amountOut! > 0)
+      .sort((a, b) => b.amountOut! - a.amountOut!);
+    const best = quoted[0];
+    const worst = quoted[quoted.length - 1];
+
+    return {
+      txHash: tx.hash,
+      chainId: tx.chain_id,
+      timestamp: tx.timestamp,
+      fromToken: tx.from_token,
+      toToken: tx.to_token,
+      fromAmount: tx.from_amount,
+      actualRoute: tx.dex,
+      actualAmountOut: tx.to_amount,
+      winner: best?.aggregator ?? null,
+      bestAmountOut: best?.amountOut ?? null,
+      improvementBps: best?.differenceBps ?? null,
+      spreadBps: quoted.length > 1 ? toBps((best.amountOut! - worst.amountOut!) / worst.amountOut!) : null,
+      quotes,
+    };
+  } catch (error) {
+    console.error(`Error comparing transaction ${tx.hash} across aggregators:`, error);
+    return null;
+  }
+}
+
+function calculateStandings(aggregators: Aggregator[], trades: AggregatorTradeComparison[]): AggregatorStanding[] {
+  return aggregators
+    .map(aggregator => {
+      const outcomes = trades.flatMap(trade => trade.quotes.filter(quote => quote.aggregator === aggregator.name));
+      const differences = outcomes
+        .map(outcome => outcome.differenceBps)
+        .filter((difference): difference is number => difference !== null);
+      return {
+        aggregator: aggregator.name,
+        quoted: outcomes.filter(outcome => outcome.status === 'quoted').length,
+        failed: outcomes.filter(outcome => outcome.status === 'failed').length,
+        wins: trades.filter(trade => trade.winner === aggregator.name).length,
+        averageDifferenceBps: differences.length > 0
+          ? Math.round((differences.reduce((sum, difference) => sum + difference, 0) / differences.length) * 100) / 100
+          : null,
+      };
+    })
+    .sort((a, b) => b.wins - a.wins);
+}
+
+function generateRecommendations(trades: AggregatorTradeComparison[], standings: AggregatorStanding[]): string[] {
+  const recommendations: string[] = [];
+
+  if (trades.length === 0) {
+    return ['No transactions could be compared across aggregators'];
+  }
+
+  const leader = standings[0];
+  if (leader && leader.wins > 0) {
+    recommendations.push(`${leader.aggregator} quoted the best price on ${leader.wins} of ${trades.length} trades`);
+  }
+
+  const improvable = trades.filter(trade => trade.improvementBps !== null && trade.improvementBps > 10);
+  if (improvable.length > 0) {
+    const average = improvable.reduce((sum, trade) => sum + trade.improvementBps!, 0) / improvable.length;
+    recommendations.push(`${improvable.length} trades would have received on average ${average.toFixed(1)} bps more through the best aggregator - quote several aggregators before large swaps`);
+  } else {
+    recommendations.push('Your executions were in line with the best aggregator quotes');
+  }
+
+  const wideSpreads = trades.filter(trade => trade.spreadBps !== null && trade.spreadBps > 50);
+  if (wideSpreads.length > 0) {
+    recommendations.push(`Aggregator quotes differed by more than 50 bps on ${wideSpreads.length} trades - the choice of aggregator matters for these pairs`);
+  }
+
+  const failing = standings.filter(standing => standing.failed > 0);
+  if (failing.length > 0) {
+    recommendations.push(`Some quotes failed (${failing.map(standing => `${standing.aggregator}: ${standing.failed}`).join(', ')}); those aggregators were left out of the affected trades`);
+  }
+
+  return recommendations;
+}
@@ -0,0 +1,41 @@
+import { CACHE_NAMESPACES, clearCache, getCacheDir, getCacheStats } from '../utils/cache.js';
+import type { CacheNamespace, CacheReport } from '../types/index.js';
+
+export async function manageCache(
+  action: CacheReport['action'] = 'stats',
+  namespace?: string
+): Promise<CacheReport> {
+  if (namespace && !CACHE_NAMESPACES.includes(namespace as CacheNamespace)) {
+    throw new Error(`Unknown cache namespace "${namespace}". Expected one of: ${CACHE_NAMESPACES.join(', ')}`);
+  }
+
+  const namespaces = namespace ? [namespace as CacheNamespace] : CACHE_NAMESPACES;
+
+  try {
+    let removedEntries: number | undefined;
+
+    switch (action) {
+      case 'stats':
+        break;
+      case 'clear':
+        removedEntries = await clearCache(namespaces);
+        break;
+      case 'prune':
+        removedEntries = await clearCache(namespaces, true);
+        break;
+      default:
+        throw new Error(`Unknown cache action "${action}". Expected one of: stats, clear, prune`);
+    }
+
+    return {
+      success: true,
+      action,
+      cacheDir: getCacheDir(),
+      removedEntries,
+      namespaces: await getCacheStats(namespaces),
+    };
+  } catch (error) {
+    console.error('Error managing cache:', error);
+    throw new Error(`Failed to manage cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -1,164 +1,192 @@
-import { getDuneData, getOneInchQuote, getHistoricalTokenPrice } from '../utils/api.js';
-import type { SwapTransaction, ComparisonResult } from '../types/index.js';
+import { getOneInchQuote } from '../utils/api.js';
+import { fetchSwapHistory } from './transactions.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { requireTokenDecimals, toBaseUnits, fromBaseUnits } from '../utils/tokens.js';
+import { measureExecutionQuality } from '../utils/execution.js';
+import { evaluateCounterfactual } from '../utils/counterfactual.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { calculateGasCost, summarizeGasCosts, weiToNative } from '../utils/gas.js';
+import { generateRecommendations } from '../recommendations/index.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type { SwapTransaction, ComparisonOptions, ComparisonResult, CounterfactualMethod, SwapComparison } from '../types/index.js';
+
+export const COMPARISON_LIMIT = 10;
+const DEFAULT_COMPARISON_CONCURRENCY = 4;
+
+interface TransactionComparison {
+  comparison: SwapComparison;
+  actualGas: number;
+  optimalGas: number;
+}
 
-export async function compareWithOneInch(walletAddress: string): Promise<ComparisonResult> {
-  if (!walletAddress || !walletAddress.startsWith('0x')) {
-    throw new Error('Invalid wallet address format');
-  }
+function getComparisonConcurrency(): number {
+  return parseInt(process.env.COMPARISON_CONCURRENCY || '') || DEFAULT_COMPARISON_CONCURRENCY;
+}
+
+export async function compareWithOneInch(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: ComparisonOptions = {}
+): Promise<ComparisonResult> {
+  assertWalletAddress(walletAddress);
 
   try {
-    const transactions = await getDuneData(walletAddress, 10);
+    // Reuse transactions the caller already fetched instead of querying the data source again
+    const limit = options.limit ?? COMPARISON_LIMIT;
+    const transactions = options.transactions
+      ? options.transactions.slice(0, limit)
+      : (await fetchSwapHistory(walletAddress, limit, chainIds, options.range)).transactions;
 
     if (transactions.length === 0) {
-      return {
+      const empty: Omit<ComparisonResult, 'recommendations'> = {
         success: true,
         wallet: walletAddress,
+        chainIds,
         totalTransactions: 0,
         totalActualGas: 0,
         totalOptimalGas: 0,
         gasSavingsPotential: 0,
-        averageSlippageActual: 0,
-        recommendations: ['No transactions found for analysis'],
+        gasSavingsPotentialUSD: 0,
+        actualGasCost: summarizeGasCosts([]),
+        averageSlippageBps: null,
+        unmeasuredSlippageCount: 0,
+        counterfactualMethods: { fork_simulation: 0, historical_price: 0, current_quote: 0 },
         detailedComparisons: [],
       };
+      return { ...empty, recommendations: generateRecommendations({ transactions, comparison: empty }, options.recommendations) };
     }
 
-    const detailedComparisons = [];
+    // Compare transactions with bounded concurrency; the HTTP layer enforces per-provider rate limits
+    const results = await mapWithConcurrency(transactions, getComparisonConcurrency(), compareTransaction);
+
+    const detailedComparisons: SwapComparison[] = [];
     let totalActualGas = 0;
     let totalOptimalGas = 0;
-    let totalSlippage = 0;
-    let validComparisons = 0;
-
-    for (const tx of transactions) {
-      try {
-        // Skip if we don't have token addresses
-        if (!tx.from_token_address || !tx.to_token_address) {
-          console.warn(`Skipping transaction ${tx.hash}: missing token addresses`);
-          continue;
-        }
-
-        // Convert amount to wei for 1inch API
-        const amountInWei = (tx.from_amount * Math.pow(10, 18)).toString();
-
-        // Get 1inch optimal quote for comparison
-        const quote = await getOneInchQuote(
-          tx.from_token_address,
-          tx.to_token_address,
-          amountInWei,
-          tx.from_token,
-          tx.to_token
-        );
-
-        const actualGas = tx.gas_used * tx.gas_price;
-        const optimalGas = parseInt(quote.estimatedGas) * tx.gas_price;
-
-        totalActualGas += actualGas;
-        totalOptimalGas += optimalGas;
-
-        // Calculate actual slippage if we have the data
-        const actualSlippage = tx.slippage || 0;
-        totalSlippage += actualSlippage;
-        validComparisons++;
-
-        // Calculate amount differences
-        const optimalAmountOut = parseFloat(quote.toAmount) / Math.pow(10, 18);
-        const actualAmountOut = tx.to_amount;
-
-        detailedComparisons.push({
-          txHash: tx.hash,
-          actualRoute: tx.dex,
-          optimalRoute: quote.protocols[0]?.[0] || '1inch Aggregated',
-          gasDifference: actualGas - optimalGas,
-          slippageDifference: actualSlippage, // Real slippage from transaction
-          actualAmountOut,
-          optimalAmountOut,
-        });
-
-        // Add delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-
-      } catch (error) {
-        console.error(`Error comparing transaction ${tx.hash}:`, error);
-        // Continue with other transactions even if one fails
+    let totalSlippageBps = 0;
+    let measuredSlippageCount = 0;
+    let unmeasuredSlippageCount = 0;
+    const counterfactualMethods: Record<CounterfactualMethod, number> = { fork_simulation: 0, historical_price: 0, current_quote: 0 };
+
+    for (const result of results) {
+      if (!result) continue;
+
+      counterfactualMethods[result.comparison.counterfactual.method]++;
+
+      totalActualGas += result.actualGas;
+      totalOptimalGas += result.optimalGas;
+
+      // Only measured swaps count towards the average; the rest are reported as unknown
+      if (result.comparison.slippageBps !== null) {
+        totalSlippageBps += result.comparison.slippageBps;
+        measuredSlippageCount++;
+      } else {
+        unmeasuredSlippageCount++;
       }
+
+      detailedComparisons.push(result.comparison);
     }
 
     const gasSavingsPotential = Math.max(0, totalActualGas - totalOptimalGas);
-    const averageSlippageActual = validComparisons > 0 ? totalSlippage / validComparisons : 0;
-
-    // Generate intelligent recommendations based on actual data
-    const recommendations = generateRecommendations(
-      transactions,
-      gasSavingsPotential,
-      totalActualGas,
-      averageSlippageActual,
-      detailedComparisons
+    const gasSavingsPotentialUSD = Math.max(
+      0,
+      detailedComparisons.reduce((sum, comparison) => sum + (comparison.gasDifferenceUSD ?? 0), 0)
     );
+    const averageSlippageBps = measuredSlippageCount > 0 ? totalSlippageBps / measuredSlippageCount : null;
 
-    return {
+    const result: Omit<ComparisonResult, 'recommendations'> = {
       success: true,
       wallet: walletAddress,
+      chainIds,
       totalTransactions: transactions.length,
       totalActualGas,
       totalOptimalGas,
       gasSavingsPotential,
-      averageSlippageActual: Math.round(averageSlippageActual * 100) / 100,
-      recommendations,
+      gasSavingsPotentialUSD: Math.round(gasSavingsPotentialUSD * 100) / 100,
+      actualGasCost: summarizeGasCosts(detailedComparisons.map(comparison => comparison.actualGasCost)),
+      averageSlippageBps: averageSlippageBps !== null ? Math.round(averageSlippageBps * 100) / 100 : null,
+      unmeasuredSlippageCount,
+      counterfactualMethods,
       detailedComparisons,
     };
+
+    // Run the recommendation rules over the comparison
+    return { ...result, recommendations: generateRecommendations({ transactions, comparison: result }, options.recommendations) };
   } catch (error) {
     console.error('Error in comparison analysis:', error);
     throw new Error(`Failed to perform comparison analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-function generateRecommendations(
-  transactions: SwapTransaction[],
-  gasSavingsPotential: number,
-  totalActualGas: number,
-  averageSlippage: number,
-  comparisons: any[]
-): string[] {
-  const recommendations: string[] = [];
-
-  // Gas efficiency recommendations
-  if (gasSavingsPotential > 0) {
-    const savingsPercentage = (gasSavingsPotential / totalActualGas) * 100;
-    recommendations.push(`Consider using 1inch aggregator for better gas efficiency`);
-    recommendations.push(`Potential gas savings: ${(gasSavingsPotential / 1e9).toFixed(4)} Gwei (${savingsPercentage.toFixed(1)}%)`);
-  } else {
-    recommendations.push('Your gas usage is already quite efficient!');
-  }
-
-  // DEX-specific recommendations
-  const dexUsage = transactions.reduce((acc, tx) => {
-    acc[tx.dex] = (acc[tx.dex] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const mostUsedDex = Object.entries(dexUsage).sort(([,a], [,b]) => b - a)[0];
-  if (mostUsedDex && mostUsedDex[0] === 'Uniswap V2') {
-    recommendations.push('Consider upgrading to Uniswap V3 for better capital efficiency and lower slippage');
-  }
+async function compareTransaction(tx: SwapTransaction): Promise<TransactionComparison | null> {
+  try {
+    // Skip if we don't have token addresses
+    if (!tx.from_token_address || !tx.to_token_address) {
+      console.warn(`Skipping transaction ${tx.hash}: missing token addresses`);
+      return null;
+    }
 
-  // Slippage recommendations
-  if (averageSlippage > 1.0) {
-    recommendations.push(`Your average slippage is ${averageSlippage.toFixed(2)}% - consider using limit orders or splitting large trades`);
-  } else if (averageSlippage > 0.5) {
-    recommendations.push('Consider adjusting slippage tolerance or timing trades during less volatile periods');
-  }
+    // Convert amount to base units for 1inch API using each token's real decimals
+    const [fromDecimals, toDecimals] = await Promise.all([
+      requireTokenDecimals(tx.from_token_address, tx.chain_id),
+      requireTokenDecimals(tx.to_token_address, tx.chain_id),
+    ]);
+    const amountInWei = toBaseUnits(tx.from_amount, fromDecimals);
+
+    // Get 1inch optimal quote for comparison, and measure execution and gas cost against the market at block_time.
+    // The quote is optional: without it the counterfactual falls back to simulation or the market rate.
+    const [quote, execution, gasCost] = await Promise.all([
+      getOneInchQuote(
+        tx.from_token_address,
+        tx.to_token_address,
+        amountInWei,
+        tx.from_token,
+        tx.to_token,
+        tx.chain_id
+      ).catch(error => {
+        console.error(`Error fetching 1inch quote for ${tx.hash}:`, error);
+        return null;
+      }),
+      measureExecutionQuality(tx),
+      tx.gas_cost ?? calculateGasCost(tx),
+    ]);
+
+    // Compare against what the best alternative would have returned at the time of the swap
+    const counterfactual = await evaluateCounterfactual(tx, amountInWei, toDecimals, quote, execution);
+    if (!counterfactual) {
+      console.warn(`Skipping transaction ${tx.hash}: no counterfactual could be established`);
+      return null;
+    }
 
-  // Route optimization recommendations
-  const suboptimalRoutes = comparisons.filter(c => c.gasDifference > 0).length;
-  if (suboptimalRoutes > comparisons.length * 0.3) {
-    recommendations.push('Many of your trades used suboptimal routes - consider using DEX aggregators');
-  }
+    // Without a quote there is no alternative gas estimate, so no gas difference is reported
+    const actualGas = tx.gas_used * tx.gas_price;
+    const optimalGas = quote ? parseInt(quote.estimatedGas) * tx.gas_price : actualGas;
+    const gasDifferenceNative = weiToNative(actualGas - optimalGas);
+    const actualAmountOut = tx.to_amount;
 
-  // Volume-based recommendations
-  const highValueTrades = transactions.filter(tx => (tx.usd_value || 0) > 1000).length;
-  if (highValueTrades > 0) {
-    recommendations.push('For high-value trades, consider using professional trading interfaces with better routing');
+    return {
+      actualGas,
+      optimalGas,
+      comparison: {
+        txHash: tx.hash,
+        chainId: tx.chain_id,
+        leg: tx.leg,
+        actualRoute: tx.dex,
+        optimalRoute: counterfactual.route,
+        gasDifference: actualGas - optimalGas,
+        gasDifferenceNative,
+        gasDifferenceUSD: quote && gasCost.nativePriceUSD !== null ? gasDifferenceNative * gasCost.nativePriceUSD : null,
+        actualGasCost: gasCost,
+        slippageBps: execution.slippageBps,
+        slippageStatus: execution.status,
+        actualAmountOut,
+        optimalAmountOut: counterfactual.amountOut,
+        currentQuoteAmountOut: quote ? fromBaseUnits(quote.toAmount, toDecimals) : null,
+        counterfactual,
+      },
+    };
+  } catch (error) {
+    console.error(`Error comparing transaction ${tx.hash}:`, error);
+    // Continue with other transactions even if one fails
+    return null;
   }
-
-  return recommendations;
-}
\ No newline at end of file
+}
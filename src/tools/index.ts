@@ -1,11 +1,25 @@
 export { getUserTransactions } from './transactions.js';
 export { compareWithOneInch } from './comparison.js';
-export { generateSwapReport } from './report.js';
+export { compareWithAggregators } from './aggregators.js';
+export { generateSwapReport, buildSwapReport } from './report.js';
+export { generatePortfolioReport } from './portfolio.js';
+export { calculatePnl } from './pnl.js';
+export { getGasTiming } from './timing.js';
+export { getGasOverhead } from './overhead.js';
+export { watchWallet, unwatchWallet } from './watch.js';
+export { manageCache } from './cache.js';
 
 // Re-export types for convenience
 export type { 
   SwapTransaction, 
   OneInchQuote, 
   ComparisonResult, 
-  SwapReportData 
+  AggregatorComparisonResult,
+  SwapReportData,
+  PortfolioReportData,
+  PnlReport,
+  GasTimingReport,
+  GasOverheadReport,
+  WatchReport,
+  CacheReport
 } from '../types/index.js';
\ No newline at end of file
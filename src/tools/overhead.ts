@@ -0,0 +1,38 @@
+import { fetchSwapHistory, fetchOverheadHistory } from './transactions.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { describeTimeRange } from '../utils/range.js';
+import { analyzeGasOverhead } from '../utils/overhead.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type { GasOverheadOptions, GasOverheadReport } from '../types/index.js';
+
+const OVERHEAD_TRANSACTION_LIMIT = 100;
+
+export async function getGasOverhead(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: GasOverheadOptions = {}
+): Promise<GasOverheadReport> {
+  assertWalletAddress(walletAddress);
+  const limit = options.limit ?? OVERHEAD_TRANSACTION_LIMIT;
+
+  try {
+    // The swaps tell which tokens to check allowances for
+    const [history, overhead] = await Promise.all([
+      fetchSwapHistory(walletAddress, limit, chainIds, options.range),
+      fetchOverheadHistory(walletAddress, limit, chainIds, options.range),
+    ]);
+    const analysis = await analyzeGasOverhead(walletAddress, chainIds, history.transactions, overhead);
+
+    return {
+      success: true,
+      wallet: walletAddress,
+      ensName: options.ensName,
+      chainIds,
+      timeRange: describeTimeRange(options.range, overhead.transactions),
+      ...analysis,
+    };
+  } catch (error) {
+    console.error('Error analyzing gas overhead:', error);
+    throw new Error(`Failed to analyze gas overhead: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
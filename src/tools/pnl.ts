@@ -0,0 +1,290 @@
+import { fetchSwapHistory } from './transactions.js';
+import { getPrice } from '../oracles/index.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { attachGasCosts } from '../utils/gas.js';
+import { describeTimeRange } from '../utils/range.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type {
+  CostBasisMethod,
+  LedgerEntry,
+  PnlOptions,
+  PnlReport,
+  SwapTransaction,
+  TokenPnl,
+  UnrealizedPosition,
+} from '../types/index.js';
+
+const PNL_TRANSACTION_LIMIT = 1000;
+const LONG_TERM_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quantities below this are treated as fully consumed to absorb float rounding
+const DUST = 1e-12;
+
+// An open acquisition; unitCostUSD is null when the acquiring swap could not be priced
+interface Lot {
+  quantity: number;
+  unitCostUSD: number | null;
+  acquiredAt: string | null;
+  acquisitionTx: string | null;
+}
+
+interface TokenState {
+  token: string;
+  tokenAddress: string;
+  chainId: number;
+  lots: Lot[];
+  pnl: TokenPnl;
+}
+
+function tokenKey(chainId: number, address: string, symbol: string): string {
+  return `${chainId}:${(address || symbol).toLowerCase()}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// USD value of a swap at the time it happened: the source's USD amount, else either leg at its historical price
+async function swapValueUSD(tx: SwapTransaction): Promise<number | null> {
+  if (tx.usd_value && tx.usd_value > 0) return tx.usd_value;
+
+  const at = { chainId: tx.chain_id, timestamp: tx.timestamp, blockNumber: tx.block_number };
+  const fromPrice = await getPrice({ ...at, address: tx.from_token_address, symbol: tx.from_token });
+  if (fromPrice) return tx.from_amount * fromPrice.priceUSD;
+
+  const toPrice = await getPrice({ ...at, address: tx.to_token_address, symbol: tx.to_token });
+  if (toPrice) return tx.to_amount * toPrice.priceUSD;
+
+  return null;
+}
+
+// Take `quantity` out of the open lots in the order the method prescribes
+function consumeLots(state: TokenState, quantity: number, method: CostBasisMethod): { lot: Lot; quantity: number }[] {
+  const matches: { lot: Lot; quantity: number }[] = [];
+  let remaining = quantity;
+
+  while (remaining > DUST && state.lots.length > 0) {
+    const index = method === 'lifo' ? state.lots.length - 1 : 0;
+    const lot = state.lots[index];
+    const taken = Math.min(lot.quantity, remaining);
+
+    matches.push({ lot: { ...lot }, quantity: taken });
+    lot.quantity -= taken;
+    remaining -= taken;
+
+    if (lot.quantity <= DUST) {
+      state.lots.splice(index, 1);
+    }
+  }
+
+  return matches;
+}
+
+// Average cost keeps a single pooled lot per token
+function addToPool(state: TokenState, lot: Lot): void {
+  const pool = state.lots[0];
+  if (!pool) {
+    state.lots.push({ ...lot, acquiredAt: null, acquisitionTx: null });
+    return;
+  }
+
+  const quantity = pool.quantity + lot.quantity;
+  pool.unitCostUSD = pool.unitCostUSD !== null && lot.unitCostUSD !== null
+    ? (pool.unitCostUSD * pool.quantity + lot.unitCostUSD * lot.quantity) / quantity
+    : null;
+  pool.quantity = quantity;
+}
+
+export async function calculatePnl(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: PnlOptions = {}
+): Promise<PnlReport> {
+  assertWalletAddress(walletAddress);
+  const method = options.method ?? 'fifo';
+
+  try {
+    const history = await fetchSwapHistory(walletAddress, options.limit ?? PNL_TRANSACTION_LIMIT, chainIds, options.range);
+    const transactions = await attachGasCosts(
+      [...history.transactions].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    );
+
+    const states = new Map<string, TokenState>();
+    const getState = (chainId: number, address: string, symbol: string): TokenState => {
+      const key = tokenKey(chainId, address, symbol);
+      if (!states.has(key)) {
+        states.set(key, {
+          token: symbol,
+          tokenAddress: address,
+          chainId,
+          lots: [],
+          pnl: {
+            token: symbol,
+            tokenAddress: address,
+            chainId,
+            disposals: 0,
+            quantityDisposed: 0,
+            proceedsUSD: 0,
+            costBasisUSD: 0,
+            realizedGainUSD: 0,
+            unmatchedQuantity: 0,
+          },
+        });
+      }
+      return states.get(key)!;
+    };
+
+    const ledger: LedgerEntry[] = [];
+    const unpricedSwaps: string[] = [];
+    let feesUSD = 0;
+
+    // Each swap disposes of from_token and acquires to_token at the same USD value.
+    // Gas is deducted from the disposal proceeds. Both amounts are positive: fetchSwapHistory drops
+    // swaps with a zero leg before they reach the lots, and merging hops only adds amounts up.
+    for (const tx of transactions) {
+      const valueUSD = await swapValueUSD(tx);
+      if (valueUSD === null) unpricedSwaps.push(tx.hash);
+
+      const feeUSD = tx.gas_cost?.costUSD ?? 0;
+      feesUSD += feeUSD;
+      const netProceedsUSD = valueUSD !== null ? valueUSD - feeUSD : null;
+
+      // Disposal
+      const sold = getState(tx.chain_id, tx.from_token_address, tx.from_token);
+      const matches = consumeLots(sold, tx.from_amount, method);
+      const matchedQuantity = matches.reduce((sum, match) => sum + match.quantity, 0);
+      const unmatchedQuantity = tx.from_amount - matchedQuantity;
+
+      const disposals = [...matches];
+      if (unmatchedQuantity > DUST) {
+        // Acquired before the analyzed window or received by transfer: the cost basis is unknown
+        disposals.push({ lot: { quantity: unmatchedQuantity, unitCostUSD: null, acquiredAt: null, acquisitionTx: null }, quantity: unmatchedQuantity });
+        sold.pnl.unmatchedQuantity += unmatchedQuantity;
+      }
+
+      for (const { lot, quantity } of disposals) {
+        const proceedsUSD = netProceedsUSD !== null ? netProceedsUSD * (quantity / tx.from_amount) : null;
+        const costBasisUSD = lot.unitCostUSD !== null ? lot.unitCostUSD * quantity : null;
+        const gainUSD = proceedsUSD !== null && costBasisUSD !== null ? proceedsUSD - costBasisUSD : null;
+        const holdingPeriodDays = lot.acquiredAt
+          ? Math.floor((new Date(tx.timestamp).getTime() - new Date(lot.acquiredAt).getTime()) / DAY_MS)
+          : null;
+
+        ledger.push({
+          token: sold.token,
+          tokenAddress: sold.tokenAddress,
+          chainId: sold.chainId,
+          quantity,
+          acquiredAt: lot.acquiredAt,
+          acquisitionTx: lot.acquisitionTx,
+          disposedAt: tx.timestamp,
+          disposalTx: tx.hash,
+          proceedsUSD: proceedsUSD !== null ? round(proceedsUSD) : null,
+          costBasisUSD: costBasisUSD !== null ? round(costBasisUSD) : null,
+          gainUSD: gainUSD !== null ? round(gainUSD) : null,
+          holdingPeriodDays,
+          term: holdingPeriodDays !== null ? (holdingPeriodDays > LONG_TERM_DAYS ? 'long' : 'short') : null,
+        });
+
+        if (gainUSD !== null) {
+          sold.pnl.proceedsUSD += proceedsUSD!;
+          sold.pnl.costBasisUSD += costBasisUSD!;
+          sold.pnl.realizedGainUSD += gainUSD;
+        }
+      }
+      sold.pnl.disposals++;
+      sold.pnl.quantityDisposed += tx.from_amount;
+
+      // Acquisition
+      const bought = getState(tx.chain_id, tx.to_token_address, tx.to_token);
+      const lot: Lot = {
+        quantity: tx.to_amount,
+        unitCostUSD: valueUSD !== null ? valueUSD / tx.to_amount : null,
+        acquiredAt: tx.timestamp,
+        acquisitionTx: tx.hash,
+      };
+      if (method === 'average') {
+        addToPool(bought, lot);
+      } else {
+        bought.lots.push(lot);
+      }
+    }
+
+    const positions = await calculatePositions(Array.from(states.values()));
+    const tokens = Array.from(states.values())
+      .map(state => state.pnl)
+      .filter(pnl => pnl.disposals > 0)
+      .map(pnl => ({
+        ...pnl,
+        proceedsUSD: round(pnl.proceedsUSD),
+        costBasisUSD: round(pnl.costBasisUSD),
+        realizedGainUSD: round(pnl.realizedGainUSD),
+      }));
+
+    const realizedEntries = ledger.filter(entry => entry.gainUSD !== null);
+    const sumEntries = (entries: LedgerEntry[], field: 'proceedsUSD' | 'costBasisUSD' | 'gainUSD') =>
+      round(entries.reduce((sum, entry) => sum + (entry[field] ?? 0), 0));
+
+    return {
+      success: true,
+      wallet: walletAddress,
+      ensName: options.ensName,
+      chainIds,
+      method,
+      generatedAt: new Date().toISOString(),
+      timeRange: describeTimeRange(options.range, transactions),
+      totals: {
+        swaps: transactions.length,
+        proceedsUSD: sumEntries(realizedEntries, 'proceedsUSD'),
+        costBasisUSD: sumEntries(realizedEntries, 'costBasisUSD'),
+        realizedGainUSD: sumEntries(realizedEntries, 'gainUSD'),
+        shortTermGainUSD: sumEntries(realizedEntries.filter(entry => entry.term === 'short'), 'gainUSD'),
+        longTermGainUSD: sumEntries(realizedEntries.filter(entry => entry.term === 'long'), 'gainUSD'),
+        feesUSD: round(feesUSD),
+        marketValueUSD: round(positions.reduce((sum, position) => sum + (position.marketValueUSD ?? 0), 0)),
+        unrealizedGainUSD: round(positions.reduce((sum, position) => sum + (position.unrealizedGainUSD ?? 0), 0)),
+      },
+      tokens,
+      positions,
+      ledger,
+      unpricedSwaps,
+      historyTruncated: history.truncated,
+    };
+  } catch (error) {
+    console.error('Error calculating PnL:', error);
+    throw new Error(`Failed to calculate PnL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Value the remaining open lots at current prices
+async function calculatePositions(states: TokenState[]): Promise<UnrealizedPosition[]> {
+  const positions: UnrealizedPosition[] = [];
+
+  for (const state of states) {
+    const quantity = state.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (quantity <= DUST) continue;
+
+    const hasUnknownCost = state.lots.some(lot => lot.unitCostUSD === null);
+    const costBasisUSD = hasUnknownCost
+      ? null
+      : state.lots.reduce((sum, lot) => sum + lot.unitCostUSD! * lot.quantity, 0);
+
+    const price = await getPrice({ chainId: state.chainId, address: state.tokenAddress, symbol: state.token });
+    const currentPriceUSD = price?.priceUSD ?? null;
+    const marketValueUSD = currentPriceUSD !== null ? quantity * currentPriceUSD : null;
+
+    positions.push({
+      token: state.token,
+      tokenAddress: state.tokenAddress,
+      chainId: state.chainId,
+      quantity,
+      costBasisUSD: costBasisUSD !== null ? round(costBasisUSD) : null,
+      currentPriceUSD,
+      marketValueUSD: marketValueUSD !== null ? round(marketValueUSD) : null,
+      unrealizedGainUSD: marketValueUSD !== null && costBasisUSD !== null ? round(marketValueUSD - costBasisUSD) : null,
+    });
+  }
+
+  return positions;
+}
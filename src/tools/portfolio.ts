@@ -0,0 +1,221 @@
+import { fetchSwapHistory } from './transactions.js';
+import { calculateChainBreakdown, calculateRealVolumeUSD, findMostUsedDEX } from './report.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { describeTimeRange } from '../utils/range.js';
+import { attachGasCosts, summarizeGasCosts } from '../utils/gas.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type {
+  InternalTransfer,
+  PortfolioOptions,
+  PortfolioReportData,
+  PortfolioWalletBreakdown,
+  ResolvedWallet,
+  RoundTrip,
+  SwapTransaction,
+} from '../types/index.js';
+
+const PORTFOLIO_TRANSACTION_LIMIT = 50;
+const PORTFOLIO_CONCURRENCY = 4;
+
+// Two opposite swaps count as a round-trip when the amounts match within 2% inside 24 hours
+const ROUND_TRIP_TOLERANCE = 0.02;
+const ROUND_TRIP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface PortfolioSwap {
+  tx: SwapTransaction;
+  owner: string;
+  volumeUSD: number;
+  classification: 'trade' | 'internal_transfer' | 'round_trip';
+}
+
+function swapKey(tx: SwapTransaction): string {
+  return [tx.chain_id, tx.hash, tx.from_token_address, tx.to_token_address, tx.from_amount].join(':').toLowerCase();
+}
+
+export async function generatePortfolioReport(
+  wallets: ResolvedWallet[],
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: PortfolioOptions = {}
+): Promise<PortfolioReportData> {
+  // The same wallet may be listed twice, e.g. once by address and once by ENS name
+  const uniqueWallets = Array.from(
+    new Map(wallets.map(wallet => [wallet.address.toLowerCase(), wallet])).values()
+  );
+  if (uniqueWallets.length === 0) {
+    throw new Error('At least one wallet is required for a portfolio report');
+  }
+  uniqueWallets.forEach(wallet => assertWalletAddress(wallet.address));
+
+  try {
+    const groupAddresses = new Set(uniqueWallets.map(wallet => wallet.address.toLowerCase()));
+    const histories = await mapWithConcurrency(uniqueWallets, PORTFOLIO_CONCURRENCY, wallet =>
+      fetchSwapHistory(wallet.address, options.limit ?? PORTFOLIO_TRANSACTION_LIMIT, chainIds, options.range)
+    );
+    const perWallet = histories.map(history => history.transactions);
+
+    // Merge the histories; a swap between two group wallets shows up in both and is kept once,
+    // attributed to the wallet that sent the transaction when it is part of the group
+    const merged = new Map<string, PortfolioSwap>();
+    for (const [index, transactions] of perWallet.entries()) {
+      const fetchedFor = uniqueWallets[index].address.toLowerCase();
+      for (const tx of transactions) {
+        const trader = tx.trader?.toLowerCase();
+        const owner = trader && groupAddresses.has(trader) ? trader : fetchedFor;
+        const key = swapKey(tx);
+        if (!merged.has(key)) {
+          merged.set(key, { tx, owner, volumeUSD: 0, classification: 'trade' });
+        }
+      }
+    }
+
+    const swaps = Array.from(merged.values()).sort(
+      (a, b) => new Date(b.tx.timestamp).getTime() - new Date(a.tx.timestamp).getTime()
+    );
+    for (const swap of swaps) {
+      swap.volumeUSD = await calculateRealVolumeUSD([swap.tx]);
+    }
+    await attachGasCosts(swaps.map(swap => swap.tx));
+
+    const internalTransfers = detectInternalTransfers(swaps, groupAddresses);
+    const roundTrips = detectRoundTrips(swaps);
+
+    const tradingSwaps = swaps.filter(swap => swap.classification === 'trade');
+    const tradingTransactions = tradingSwaps.map(swap => swap.tx);
+    const allTransactions = swaps.map(swap => swap.tx);
+
+    const totalVolumeUSD = tradingSwaps.reduce((sum, swap) => sum + swap.volumeUSD, 0);
+    const internalVolumeUSD = swaps
+      .filter(swap => swap.classification !== 'trade')
+      .reduce((sum, swap) => sum + swap.volumeUSD, 0);
+
+    // Gas is a real cost even for internal activity, so it is counted for every swap
+    const totalGasUsed = allTransactions.reduce((sum, tx) => sum + tx.gas_used, 0);
+    const totalGasSpent = allTransactions.reduce((sum, tx) => sum + (tx.gas_used * tx.gas_price), 0);
+    const gasCosts = summarizeGasCosts(allTransactions.map(tx => tx.gas_cost!));
+
+    const now = new Date().toISOString();
+
+    return {
+      success: true,
+      group: options.group,
+      wallets: uniqueWallets,
+      chainIds,
+      reportGeneratedAt: now,
+      summary: {
+        totalSwaps: swaps.length,
+        tradingSwaps: tradingSwaps.length,
+        totalVolumeUSD: Math.round(totalVolumeUSD * 100) / 100,
+        internalVolumeUSD: Math.round(internalVolumeUSD * 100) / 100,
+        averageGasUsed: swaps.length > 0 ? Math.round(totalGasUsed / swaps.length) : 0,
+        mostUsedDEX: tradingTransactions.length > 0 ? findMostUsedDEX(tradingTransactions) : 'N/A',
+      },
+      gasAnalysis: {
+        totalGasSpent: Math.round(totalGasSpent),
+        averageGasPrice: totalGasUsed > 0 ? Math.round(totalGasSpent / totalGasUsed) : 0,
+        totalGasCostUSD: gasCosts.totalCostUSD,
+        nativeTotals: gasCosts.nativeTotals,
+      },
+      walletBreakdown: uniqueWallets.map(wallet => calculateWalletBreakdown(wallet, swaps)),
+      // Per-chain volume only covers trading swaps so it adds up to summary.totalVolumeUSD
+      chainBreakdown: await calculateChainBreakdown(tradingTransactions, chainIds),
+      internalActivity: {
+        internalTransfers,
+        roundTrips,
+      },
+      timeRange: describeTimeRange(options.range, allTransactions),
+      historyTruncated: histories.some(history => history.truncated),
+    };
+  } catch (error) {
+    console.error('Error generating portfolio report:', error);
+    throw new Error(`Failed to generate portfolio report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Swaps sent by one group wallet whose output went to another group wallet
+function detectInternalTransfers(swaps: PortfolioSwap[], groupAddresses: Set<string>): InternalTransfer[] {
+  const transfers: InternalTransfer[] = [];
+
+  for (const swap of swaps) {
+    const recipient = swap.tx.recipient?.toLowerCase();
+    if (!recipient || recipient === swap.owner || !groupAddresses.has(recipient)) continue;
+
+    swap.classification = 'internal_transfer';
+    transfers.push({
+      txHash: swap.tx.hash,
+      chainId: swap.tx.chain_id,
+      fromWallet: swap.owner,
+      toWallet: recipient,
+      fromToken: swap.tx.from_token,
+      toToken: swap.tx.to_token,
+      volumeUSD: Math.round(swap.volumeUSD * 100) / 100,
+    });
+  }
+
+  return transfers;
+}
+
+// Pair a swap by one group wallet with the closest opposite swap by another group wallet
+function detectRoundTrips(swaps: PortfolioSwap[]): RoundTrip[] {
+  const roundTrips: RoundTrip[] = [];
+  const candidates = swaps.filter(swap => swap.classification === 'trade');
+
+  for (const first of candidates) {
+    if (first.classification !== 'trade') continue;
+    const firstTime = new Date(first.tx.timestamp).getTime();
+
+    let match: PortfolioSwap | undefined;
+    let matchDistance = Infinity;
+    for (const second of candidates) {
+      if (second === first || second.classification !== 'trade' || second.owner === first.owner) continue;
+      if (second.tx.chain_id !== first.tx.chain_id) continue;
+      if (second.tx.from_token_address.toLowerCase() !== first.tx.to_token_address.toLowerCase()) continue;
+      if (second.tx.to_token_address.toLowerCase() !== first.tx.from_token_address.toLowerCase()) continue;
+
+      const difference = Math.abs(second.tx.to_amount - first.tx.from_amount) / first.tx.from_amount;
+      const distance = Math.abs(new Date(second.tx.timestamp).getTime() - firstTime);
+      if (difference <= ROUND_TRIP_TOLERANCE && distance <= ROUND_TRIP_WINDOW_MS && distance < matchDistance) {
+        match = second;
+        matchDistance = distance;
+      }
+    }
+
+    if (!match) continue;
+
+    // Order the legs chronologically
+    const [opening, closing] = new Date(match.tx.timestamp).getTime() < firstTime ? [match, first] : [first, match];
+    opening.classification = 'round_trip';
+    closing.classification = 'round_trip';
+    roundTrips.push({
+      chainId: opening.tx.chain_id,
+      txHashes: [opening.tx.hash, closing.tx.hash],
+      wallets: [opening.owner, closing.owner],
+      tokens: [opening.tx.from_token, opening.tx.to_token],
+      amountDifferencePercent: Math.round(
+        (Math.abs(closing.tx.to_amount - opening.tx.from_amount) / opening.tx.from_amount) * 10000
+      ) / 100,
+      hoursApart: Math.round((matchDistance / 3600000) * 100) / 100,
+      volumeUSD: Math.round((opening.volumeUSD + closing.volumeUSD) * 100) / 100,
+    });
+  }
+
+  return roundTrips;
+}
+
+function calculateWalletBreakdown(wallet: ResolvedWallet, swaps: PortfolioSwap[]): PortfolioWalletBreakdown {
+  const walletSwaps = swaps.filter(swap => swap.owner === wallet.address.toLowerCase());
+  const tradingSwaps = walletSwaps.filter(swap => swap.classification === 'trade');
+
+  return {
+    wallet: wallet.address,
+    ensName: wallet.ensName,
+    totalSwaps: walletSwaps.length,
+    tradingSwaps: tradingSwaps.length,
+    tradingVolumeUSD: Math.round(tradingSwaps.reduce((sum, swap) => sum + swap.volumeUSD, 0) * 100) / 100,
+    internalVolumeUSD: Math.round(
+      walletSwaps.filter(swap => swap.classification !== 'trade').reduce((sum, swap) => sum + swap.volumeUSD, 0) * 100
+    ) / 100,
+    totalGasSpent: Math.round(walletSwaps.reduce((sum, swap) => sum + (swap.tx.gas_used * swap.tx.gas_price), 0)),
+    mostUsedDEX: walletSwaps.length > 0 ? findMostUsedDEX(walletSwaps.map(swap => swap.tx)) : 'N/A',
+  };
+}
@@ -1,24 +1,70 @@
-import { getUserTransactions } from './transactions.js';
-import { compareWithOneInch } from './comparison.js';
-import { getTokenPrice } from '../utils/api.js';
-import type { SwapReportData } from '../types/index.js';
-
-export async function generateSwapReport(walletAddress: string): Promise<SwapReportData> {
-  if (!walletAddress || !walletAddress.startsWith('0x')) {
-    throw new Error('Invalid wallet address format');
-  }
+import { fetchSwapHistory, fetchOverheadHistory } from './transactions.js';
+import { compareWithOneInch, COMPARISON_LIMIT } from './comparison.js';
+import { analyzeMev } from '../mev/index.js';
+import { getPrice, getNativePrice } from '../oracles/index.js';
+import { DEFAULT_CHAIN_ID, getChain } from '../utils/chains.js';
+import { describeTimeRange } from '../utils/range.js';
+import { attachGasCosts, summarizeGasCosts, weiToNative } from '../utils/gas.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import { getScoringProfile } from '../utils/config.js';
+import { calculateEfficiencyScore } from '../utils/scoring.js';
+import { analyzeGasTiming } from '../utils/timing.js';
+import { analyzeGasOverhead } from '../utils/overhead.js';
+import { generateRecommendations } from '../recommendations/index.js';
+import type { SwapReportData, SwapReportBundle, SwapTransaction, SwapComparison, ChainBreakdown, MevAnalysis, ReportOptions } from '../types/index.js';
+
+const REPORT_TRANSACTION_LIMIT = 50;
+
+export async function generateSwapReport(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: ReportOptions = {}
+): Promise<SwapReportData> {
+  const { report } = await buildSwapReport(walletAddress, chainIds, options);
+  return report;
+}
+
+// The report together with the swaps and comparisons it was computed from, for the formatters
+export async function buildSwapReport(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: ReportOptions = {}
+): Promise<SwapReportBundle> {
+  assertWalletAddress(walletAddress);
+  const scoringProfile = getScoringProfile(options.scoringProfile);
 
   try {
-    // Get transaction and comparison data
-    const [transactions, comparison] = await Promise.all([
-      getUserTransactions(walletAddress, 50),
-      compareWithOneInch(walletAddress),
-    ]);
+    // Get transaction data once and run the comparison on the same rows
+    const history = await fetchSwapHistory(walletAddress, options.limit ?? REPORT_TRANSACTION_LIMIT, chainIds, options.range);
+    const transactions = await attachGasCosts(history.transactions);
+    const comparison = await compareWithOneInch(walletAddress, chainIds, {
+      transactions,
+      limit: options.comparisonLimit,
+    });
+    // Check the same recent swaps for sandwiches and back-runs
+    const mevAnalysis = await analyzeMev(transactions.slice(0, options.comparisonLimit ?? COMPARISON_LIMIT));
+    // Compare the base fees those swaps paid with the hours around them
+    const gasTiming = await analyzeGasTiming(transactions.slice(0, options.comparisonLimit ?? COMPARISON_LIMIT));
+    // Failed attempts and approvals cost gas too, and approvals may still be open. Like MEV and
+    // timing, a failing overhead source leaves that section empty rather than failing the report.
+    const overhead = await fetchOverheadHistory(walletAddress, options.limit ?? REPORT_TRANSACTION_LIMIT, chainIds, options.range)
+      .catch(error => {
+        console.error('Error fetching gas overhead for the report:', error);
+        return { source: null, transactions: [] };
+      });
+    const gasOverhead = await analyzeGasOverhead(walletAddress, chainIds, transactions, overhead);
+    const withDetails = (report: SwapReportData): SwapReportBundle => ({
+      report,
+      transactions,
+      comparisons: comparison.detailedComparisons,
+    });
 
     if (transactions.length === 0) {
-      return {
+      return withDetails({
         success: true,
         wallet: walletAddress,
+        ensName: options.ensName,
+        chainIds,
         reportGeneratedAt: new Date().toISOString(),
         summary: {
           totalSwaps: 0,
@@ -30,95 +76,181 @@ export async function generateSwapReport(walletAddress: string): Promise<SwapRep
         gasAnalysis: {
           totalGasSpent: 0,
           averageGasPrice: 0,
+          averageGasPriceGwei: 0,
           potentialSavings: 0,
           savingsPercentage: 0,
+          totalGasCostUSD: 0,
+          potentialSavingsUSD: 0,
+          baseFeeUSD: null,
+          priorityFeeUSD: null,
+          nativeTotals: [],
+          feeSplitTransactions: 0,
+          unpricedTransactions: 0,
+          failedSwapGasUSD: gasOverhead.failedSwapGasUSD,
+          approvalGasUSD: gasOverhead.approvalGasUSD,
+          overheadGasCostUSD: gasOverhead.totalCostUSD,
+          totalGasCostWithOverheadUSD: gasOverhead.totalCostUSD,
         },
         routingAnalysis: {
           optimalRoutes: 0,
           suboptimalRoutes: 0,
           missedOpportunities: ['No transactions found'],
         },
-        recommendations: ['Start making some swaps to get analysis!'],
-        timeRange: {
-          from: new Date().toISOString(),
-          to: new Date().toISOString(),
+        chainBreakdown: [],
+        scoreBreakdown: {
+          profile: scoringProfile.name,
+          description: scoringProfile.profile.description,
+          baseScore: scoringProfile.profile.baseScore,
+          score: 0,
+          factors: [],
         },
-      };
+        mevAnalysis,
+        gasTiming,
+        gasOverhead,
+        recommendations: generateRecommendations({ transactions, comparison }, options.recommendations),
+        timeRange: describeTimeRange(options.range, transactions),
+        coverage: {
+          transactionsAnalyzed: 0,
+          transactionsCompared: 0,
+          historyTruncated: false,
+        },
+      });
     }
 
-    // Calculate real volume in USD
-    const totalVolumeUSD = await calculateRealVolumeUSD(transactions);
+    // Break results down per chain; total volume is the sum across chains
+    const chainBreakdown = await calculateChainBreakdown(transactions, chainIds);
+    const totalVolumeUSD = chainBreakdown.reduce((sum, chain) => sum + chain.totalVolumeUSD, 0);
 
     // Calculate gas statistics
     const totalGasSpent = transactions.reduce((sum, tx) => sum + (tx.gas_used * tx.gas_price), 0);
     const averageGasUsed = Math.round(transactions.reduce((sum, tx) => sum + tx.gas_used, 0) / transactions.length);
     const averageGasPrice = totalGasSpent / transactions.reduce((sum, tx) => sum + tx.gas_used, 0);
 
+    // Gas costs in native tokens and USD at each swap's historical native token price
+    const gasCosts = summarizeGasCosts(transactions.map(tx => tx.gas_cost!));
+
     // Find most used DEX based on actual data
-    const dexCounts = transactions.reduce((counts, tx) => {
-      counts[tx.dex] = (counts[tx.dex] || 0) + 1;
-      return counts;
-    }, {} as Record<string, number>);
-    const mostUsedDEX = Object.entries(dexCounts).sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
-
-    // Calculate real efficiency score based on multiple factors
-    const efficiencyScore = calculateEfficiencyScore(
-      comparison.gasSavingsPotential,
+    const mostUsedDEX = findMostUsedDEX(transactions);
+
+    // Score the swaps with the selected profile, keeping the per-factor breakdown
+    const scoreBreakdown = calculateEfficiencyScore(scoringProfile, {
+      gasSavingsPotential: comparison.gasSavingsPotential,
       totalGasSpent,
-      comparison.averageSlippageActual,
-      transactions
-    );
+      averageSlippageBps: comparison.averageSlippageBps,
+      transactions,
+      comparisons: comparison.detailedComparisons,
+      mevAnalysis,
+    });
+    const efficiencyScore = scoreBreakdown.score;
 
     // Calculate real routing analysis
-    const routingAnalysis = calculateRoutingAnalysis(comparison.detailedComparisons);
+    const routingAnalysis = calculateRoutingAnalysis(comparison.detailedComparisons, mevAnalysis);
 
-    // Generate comprehensive recommendations
-    const recommendations = generateComprehensiveRecommendations(
+    // Run the recommendation rules over the comparison and the report-level results
+    const recommendations = generateRecommendations({
       transactions,
       comparison,
-      efficiencyScore,
-      averageGasPrice,
-      totalVolumeUSD
-    );
-
-    // Calculate real time range
-    const timestamps = transactions.map(tx => new Date(tx.timestamp));
-    const timeRange = {
-      from: new Date(Math.min(...timestamps.map(d => d.getTime()))).toISOString(),
-      to: new Date(Math.max(...timestamps.map(d => d.getTime()))).toISOString(),
-    };
+      report: { efficiencyScore, averageGasPrice, totalVolumeUSD, mevAnalysis, gasTiming, gasOverhead },
+    }, options.recommendations);
+
+    // Report the requested window, or the span of the swaps found when none was given
+    const timeRange = describeTimeRange(options.range, transactions);
 
     const potentialSavings = Math.max(0, comparison.gasSavingsPotential);
     const savingsPercentage = totalGasSpent > 0 ? (potentialSavings / totalGasSpent) * 100 : 0;
 
-    return {
+    return withDetails({
       success: true,
       wallet: walletAddress,
+      ensName: options.ensName,
+      chainIds,
       reportGeneratedAt: new Date().toISOString(),
       summary: {
         totalSwaps: transactions.length,
         totalVolumeUSD: Math.round(totalVolumeUSD * 100) / 100,
         averageGasUsed,
         mostUsedDEX,
-        efficiencyScore: Math.round(efficiencyScore),
+        efficiencyScore,
       },
       gasAnalysis: {
         totalGasSpent: Math.round(totalGasSpent),
         averageGasPrice: Math.round(averageGasPrice),
+        averageGasPriceGwei: Math.round((averageGasPrice / 1e9) * 100) / 100,
         potentialSavings: Math.round(potentialSavings),
         savingsPercentage: Math.round(savingsPercentage * 100) / 100,
+        totalGasCostUSD: gasCosts.totalCostUSD,
+        potentialSavingsUSD: comparison.gasSavingsPotentialUSD,
+        baseFeeUSD: gasCosts.baseFeeUSD,
+        priorityFeeUSD: gasCosts.priorityFeeUSD,
+        nativeTotals: gasCosts.nativeTotals,
+        feeSplitTransactions: gasCosts.feeSplitTransactions,
+        unpricedTransactions: gasCosts.unpricedTransactions,
+        failedSwapGasUSD: gasOverhead.failedSwapGasUSD,
+        approvalGasUSD: gasOverhead.approvalGasUSD,
+        overheadGasCostUSD: gasOverhead.totalCostUSD,
+        totalGasCostWithOverheadUSD: Math.round((gasCosts.totalCostUSD + gasOverhead.totalCostUSD) * 100) / 100,
       },
       routingAnalysis,
+      chainBreakdown,
+      scoreBreakdown,
+      mevAnalysis,
+      gasTiming,
+      gasOverhead,
       recommendations,
       timeRange,
-    };
+      coverage: {
+        transactionsAnalyzed: transactions.length,
+        transactionsCompared: comparison.detailedComparisons.length,
+        historyTruncated: history.truncated,
+      },
+    });
   } catch (error) {
     console.error('Error generating swap report:', error);
     throw new Error(`Failed to generate swap report: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-async function calculateRealVolumeUSD(transactions: any[]): Promise<number> {
+export function findMostUsedDEX(transactions: SwapTransaction[]): string {
+  const dexCounts = transactions.reduce((counts, tx) => {
+    counts[tx.dex] = (counts[tx.dex] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+  return Object.entries(dexCounts).sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
+}
+
+export async function calculateChainBreakdown(
+  transactions: SwapTransaction[],
+  chainIds: number[]
+): Promise<ChainBreakdown[]> {
+  const breakdown: ChainBreakdown[] = [];
+
+  for (const chainId of chainIds) {
+    const chain = getChain(chainId);
+    const chainTransactions = transactions.filter(tx => tx.chain_id === chainId);
+
+    const [volumeUSD, nativeTokenPriceUSD] = await Promise.all([
+      calculateRealVolumeUSD(chainTransactions),
+      chainTransactions.length > 0 ? getNativePrice(chainId).then(price => price?.priceUSD ?? 0) : Promise.resolve(0),
+    ]);
+
+    breakdown.push({
+      chainId,
+      chainName: chain.name,
+      totalSwaps: chainTransactions.length,
+      totalVolumeUSD: Math.round(volumeUSD * 100) / 100,
+      totalGasSpent: Math.round(chainTransactions.reduce((sum, tx) => sum + (tx.gas_used * tx.gas_price), 0)),
+      gasSpentNative: chainTransactions.reduce((sum, tx) => sum + weiToNative(tx.gas_used * tx.gas_price), 0),
+      gasSpentUSD: Math.round(chainTransactions.reduce((sum, tx) => sum + (tx.gas_cost?.costUSD ?? 0), 0) * 100) / 100,
+      nativeToken: chain.nativeSymbol,
+      nativeTokenPriceUSD,
+      mostUsedDEX: chainTransactions.length > 0 ? findMostUsedDEX(chainTransactions) : 'N/A',
+    });
+  }
+
+  return breakdown;
+}
+
+export async function calculateRealVolumeUSD(transactions: SwapTransaction[]): Promise<number> {
   let totalVolume = 0;
 
   for (const tx of transactions) {
@@ -127,10 +259,16 @@ async function calculateRealVolumeUSD(transactions: any[]): Promise<number> {
       if (tx.usd_value && tx.usd_value > 0) {
         totalVolume += tx.usd_value;
       } else {
-        // Fallback: try to get current price and estimate
-        const tokenPrice = await getTokenPrice(tx.from_token);
-        if (tokenPrice > 0) {
-          totalVolume += tx.from_amount * tokenPrice;
+        // Fallback: price the sold token at the time of the swap
+        const tokenPrice = await getPrice({
+          chainId: tx.chain_id,
+          address: tx.from_token_address,
+          symbol: tx.from_token,
+          timestamp: tx.timestamp,
+          blockNumber: tx.block_number,
+        });
+        if (tokenPrice) {
+          totalVolume += tx.from_amount * tokenPrice.priceUSD;
         }
       }
     } catch (error) {
@@ -142,53 +280,29 @@ async function calculateRealVolumeUSD(transactions: any[]): Promise<number> {
   return totalVolume;
 }
 
-function calculateEfficiencyScore(
-  gasSavingsPotential: number,
-  totalGasSpent: number,
-  averageSlippage: number,
-  transactions: any[]
-): number {
-  let score = 100;
-
-  // Deduct points for gas inefficiency
-  if (totalGasSpent > 0) {
-    const gasEfficiencyPenalty = (gasSavingsPotential / totalGasSpent) * 50;
-    score -= gasEfficiencyPenalty;
-  }
-
-  // Deduct points for high slippage
-  const slippagePenalty = Math.min(averageSlippage * 10, 30);
-  score -= slippagePenalty;
-
-  // Deduct points for using outdated DEXes
-  const outdatedDexCount = transactions.filter(tx => 
-    tx.dex.includes('V1') || tx.dex.includes('SushiSwap')
-  ).length;
-  const outdatedPenalty = (outdatedDexCount / transactions.length) * 20;
-  score -= outdatedPenalty;
-
-  // Bonus for consistent trading
-  const uniqueDexes = new Set(transactions.map(tx => tx.dex)).size;
-  if (uniqueDexes <= 3 && transactions.length > 5) {
-    score += 5; // Bonus for focused trading
-  }
+function calculateRoutingAnalysis(detailedComparisons: SwapComparison[], mevAnalysis: MevAnalysis) {
+  // Value lost to MEV is a missed opportunity whether or not the route itself could be compared
+  const mevOpportunities = mevAnalysis.findings.map(finding => {
+    const value = finding.extractedValueUSD !== null
+      ? ` (~$${finding.extractedValueUSD.toFixed(2)} extracted)`
+      : finding.extractedAmount !== null ? ` (~${finding.extractedAmount.toFixed(6)} ${finding.extractedToken} extracted)` : '';
+    return finding.pattern === 'sandwich'
+      ? `Swap ${finding.txHash} was sandwiched by ${finding.searcher ?? 'a searcher'} between ${finding.frontRunTx} and ${finding.backRunTx}${value}`
+      : `Swap ${finding.txHash} was back-run by ${finding.backRunTx}, which captured its price impact`;
+  });
 
-  return Math.max(0, Math.min(100, score));
-}
-
-function calculateRoutingAnalysis(detailedComparisons: any[]) {
   if (detailedComparisons.length === 0) {
     return {
       optimalRoutes: 0,
       suboptimalRoutes: 0,
-      missedOpportunities: ['No comparison data available'],
+      missedOpportunities: [...mevOpportunities, 'No comparison data available'],
     };
   }
 
   const optimalRoutes = detailedComparisons.filter(c => c.gasDifference <= 0).length;
   const suboptimalRoutes = detailedComparisons.length - optimalRoutes;
 
-  const missedOpportunities: string[] = [];
+  const missedOpportunities: string[] = [...mevOpportunities];
 
   // Analyze missed opportunities
   const significantSavings = detailedComparisons.filter(c => c.gasDifference > 50000);
@@ -196,8 +310,9 @@ function calculateRoutingAnalysis(detailedComparisons: any[]) {
     missedOpportunities.push(`${significantSavings.length} transactions could have saved significant gas`);
   }
 
+  // Low-confidence counterfactuals are current-time quotes, dominated by price moves since the swap
   const betterAmountOuts = detailedComparisons.filter(c => 
-    c.optimalAmountOut > c.actualAmountOut * 1.01
+    c.counterfactual.confidence !== 'low' && c.optimalAmountOut > c.actualAmountOut * 1.01
   );
   if (betterAmountOuts.length > 0) {
     missedOpportunities.push(`${betterAmountOuts.length} transactions could have gotten better rates`);
@@ -213,52 +328,3 @@ function calculateRoutingAnalysis(detailedComparisons: any[]) {
     missedOpportunities,
   };
 }
-
-function generateComprehensiveRecommendations(
-  transactions: any[],
-  comparison: any,
-  efficiencyScore: number,
-  averageGasPrice: number,
-  totalVolumeUSD: number
-): string[] {
-  const recommendations: string[] = [];
-
-  // Include comparison recommendations
-  recommendations.push(...comparison.recommendations);
-
-  // Efficiency-based recommendations
-  if (efficiencyScore < 50) {
-    recommendations.push('⚠️ Your trading efficiency is below average - consider using DEX aggregators');
-  } else if (efficiencyScore < 70) {
-    recommendations.push('💡 Theres room for improvement in your trading efficiency');
-  } else if (efficiencyScore >= 90) {
-    recommendations.push('🎉 Excellent trading efficiency! Youre doing great!');
-  }
-
-  // Gas price recommendations
-  if (averageGasPrice > 100e9) { // > 100 Gwei
-    recommendations.push('⛽ Consider timing your trades during lower gas periods (weekends, early morning UTC)');
-  } else if (averageGasPrice < 20e9) { // < 20 Gwei
-    recommendations.push('✅ Great job timing your trades during low gas periods!');
-  }
-
-  // Volume-based recommendations
-  if (totalVolumeUSD > 100000) {
-    recommendations.push('💰 For high-volume trading, consider using professional tools like DeFiSaver or Instadapp');
-  } else if (totalVolumeUSD < 1000) {
-    recommendations.push('🔍 For small trades, consider batching transactions to save on gas costs');
-  }
-
-  // DEX diversity recommendations
-  const uniqueDexes = new Set(transactions.map(tx => tx.dex)).size;
-  if (uniqueDexes === 1) {
-    recommendations.push('🔄 Consider diversifying across multiple DEXes for better rates and reduced slippage');
-  }
-
-  // Frequency-based recommendations
-  if (transactions.length > 20) {
-    recommendations.push('📊 Consider using DCA (Dollar Cost Averaging) strategies for frequent trading');
-  }
-
-  return recommendations;
-}
\ No newline at end of file
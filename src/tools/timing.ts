@@ -0,0 +1,34 @@
+import { fetchSwapHistory } from './transactions.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { describeTimeRange } from '../utils/range.js';
+import { analyzeGasTiming, DEFAULT_TIMING_WINDOW_HOURS } from '../utils/timing.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type { GasTimingOptions, GasTimingReport } from '../types/index.js';
+
+const TIMING_TRANSACTION_LIMIT = 100;
+
+export async function getGasTiming(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: GasTimingOptions = {}
+): Promise<GasTimingReport> {
+  assertWalletAddress(walletAddress);
+
+  try {
+    const history = await fetchSwapHistory(walletAddress, options.limit ?? TIMING_TRANSACTION_LIMIT, chainIds, options.range);
+    const timing = await analyzeGasTiming(history.transactions, options.windowHours ?? DEFAULT_TIMING_WINDOW_HOURS);
+
+    return {
+      success: true,
+      wallet: walletAddress,
+      ensName: options.ensName,
+      chainIds,
+      timeRange: describeTimeRange(options.range, history.transactions),
+      historyTruncated: history.truncated,
+      ...timing,
+    };
+  } catch (error) {
+    console.error('Error analyzing gas timing:', error);
+    throw new Error(`Failed to analyze gas timing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -1,39 +1,122 @@
-import { getDuneData } from '../utils/api.js';
-import type { SwapTransaction } from '../types/index.js';
+import { getSwapDataSource } from '../sources/index.js';
+import { DEFAULT_CHAIN_ID } from '../utils/chains.js';
+import { isInRange } from '../utils/range.js';
+import { attachGasCosts } from '../utils/gas.js';
+import { normalizeSwaps } from '../utils/normalize.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import type { OverheadTransaction, SwapHistory, SwapRange, SwapTransaction } from '../types/index.js';
+
+// Largest page requested from a data source in one call
+const PAGE_SIZE = 1000;
 
 export async function getUserTransactions(
   walletAddress: string,
-  limit: number = 10
+  limit: number = 10,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  range?: SwapRange
 ): Promise<SwapTransaction[]> {
-  if (!walletAddress || !walletAddress.startsWith('0x')) {
-    throw new Error('Invalid wallet address format');
-  }
+  const history = await fetchSwapHistory(walletAddress, limit, chainIds, range);
+  return attachGasCosts(history.transactions);
+}
 
-  if (walletAddress.length !== 42) {
-    throw new Error('Invalid wallet address length');
-  }
+function countTransactions(swaps: SwapTransaction[]): number {
+  return new Set(swaps.map(swap => swap.hash)).size;
+}
+
+// Page through the data source until `limit` swaps per chain are collected or history runs out.
+// Rows of the same transaction are merged into one logical swap, so paging counts transactions and
+// reads one past the limit to be sure the last transaction's rows are complete. `bypassCache` reads
+// the data source directly instead of through the swaps cache.
+export async function fetchSwapHistory(
+  walletAddress: string,
+  limit: number,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  range?: SwapRange,
+  options: { bypassCache?: boolean } = {}
+): Promise<SwapHistory> {
+  assertWalletAddress(walletAddress);
 
   try {
-    const transactions = await getDuneData(walletAddress, limit);
+    // Fetch every requested chain in parallel from the configured data source and merge the results
+    const source = getSwapDataSource(!options.bypassCache);
+    const perChain = await Promise.all(
+      chainIds.map(async chainId => {
+        const swaps: SwapTransaction[] = [];
+        let cursor: string | undefined;
 
-    // Validate and clean the transaction data
+        do {
+          const page = await source.fetchSwaps({
+            walletAddress,
+            chainId,
+            limit: Math.min(PAGE_SIZE, limit + 1 - countTransactions(swaps)),
+            range,
+            cursor,
+          });
+          swaps.push(...page.swaps);
+          cursor = page.nextCursor;
+        } while (cursor && countTransactions(swaps) <= limit);
+
+        return { swaps, truncated: cursor !== undefined };
+      })
+    );
+    const transactions = perChain.flatMap(chain => chain.swaps);
+
+    // Validate and clean the transaction data. Swaps with a zero leg are dropped here, which keeps
+    // per-unit prices downstream, such as P&L lot costs, finite.
     const validTransactions = transactions.filter(tx => {
       return tx.hash && 
              tx.from_token && 
              tx.to_token && 
              tx.from_amount > 0 && 
              tx.to_amount > 0 &&
-             tx.gas_used > 0;
+             tx.gas_used > 0 &&
+             isInRange(tx, range);
     });
 
-    // Sort by timestamp (most recent first)
-    validTransactions.sort((a, b) => 
+    // Merge multi-hop rows, then sort by timestamp (most recent first)
+    const swaps = normalizeSwaps(validTransactions);
+    swaps.sort((a, b) => 
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
 
-    return validTransactions;
+    return {
+      transactions: swaps.slice(0, limit),
+      truncated: swaps.length > limit || perChain.some(chain => chain.truncated),
+    };
   } catch (error) {
     console.error('Error fetching user transactions:', error);
     throw new Error(`Failed to fetch transaction data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+// Failed swap attempts, approvals and Permit2 usage, newest first. `source` is null when the
+// configured data source cannot see transactions other than swaps.
+export async function fetchOverheadHistory(
+  walletAddress: string,
+  limit: number,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  range?: SwapRange
+): Promise<{ source: string | null; transactions: OverheadTransaction[] }> {
+  assertWalletAddress(walletAddress);
+  const source = getSwapDataSource();
+  if (!source.fetchOverhead) {
+    return { source: null, transactions: [] };
+  }
+
+  try {
+    const perChain = await Promise.all(
+      chainIds.map(chainId => source.fetchOverhead!({ walletAddress, chainId, limit, range }))
+    );
+
+    // Permits carry no gas of their own but still show Permit2 usage
+    const transactions = perChain
+      .flat()
+      .filter(tx => tx.hash && (tx.gas_used > 0 || tx.kind === 'permit2_permit') && isInRange(tx, range))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return { source: source.name, transactions: await attachGasCosts(transactions.slice(0, limit)) };
+  } catch (error) {
+    console.error('Error fetching failed swaps and approvals:', error);
+    throw new Error(`Failed to fetch failed swaps and approvals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,93 @@
+import { DEFAULT_CHAIN_ID, getChain } from '../utils/chains.js';
+import { getConfig } from '../utils/config.js';
+import { assertWalletAddress } from '../utils/validation.js';
+import { checkWatch, getPollIntervalSeconds } from '../watch/index.js';
+import { deleteWatch, getStoredWatch, getWatchStorePath, listStoredWatches, LOCAL_CLIENT_ID, saveWatch, toWalletWatch, type StoredWatch } from '../watch/store.js';
+import type { WatchOptions, WatchReport } from '../types/index.js';
+
+async function buildWatchReport(
+  clientId: string,
+  action: WatchReport['action'],
+  walletAddress: string,
+  watch: StoredWatch | null,
+  message: string
+): Promise<WatchReport> {
+  return {
+    success: true,
+    action,
+    wallet: walletAddress,
+    watch: watch ? toWalletWatch(watch) : null,
+    message,
+    pollIntervalSeconds: getPollIntervalSeconds(),
+    storePath: getWatchStorePath(),
+    watches: (await listStoredWatches(clientId)).map(toWalletWatch),
+  };
+}
+
+// Register a wallet (or update its chains and thresholds). A new watch, or one whose chains changed,
+// records the current history as its baseline first so only later swaps raise alerts.
+export async function watchWallet(
+  walletAddress: string,
+  chainIds: number[] = [DEFAULT_CHAIN_ID],
+  options: WatchOptions = {}
+): Promise<WatchReport> {
+  assertWalletAddress(walletAddress);
+  const clientId = options.clientId ?? LOCAL_CLIENT_ID;
+
+  try {
+    // Thresholds not given keep their current value, or the configured default for a new watch
+    const existing = await getStoredWatch(clientId, walletAddress);
+    const defaults = existing?.thresholds ?? getConfig().watch;
+    const thresholds = {
+      minLossUSD: options.minLossUSD ?? defaults.minLossUSD,
+      maxSlippageBps: options.maxSlippageBps ?? defaults.maxSlippageBps,
+    };
+
+    const chainsChanged = existing !== undefined && [...existing.chainIds].sort().join(',') !== [...chainIds].sort().join(',');
+    const watch: StoredWatch = existing
+      ? Object.assign(existing, { ensName: options.ensName ?? existing.ensName, chainIds, thresholds })
+      : {
+          clientId,
+          wallet: walletAddress,
+          ensName: options.ensName,
+          chainIds,
+          thresholds,
+          createdAt: new Date().toISOString(),
+          lastCheckedAt: null,
+          lastError: null,
+          swapsSeen: 0,
+          alertsSent: 0,
+          seenHashes: [],
+        };
+
+    if (chainsChanged) watch.lastCheckedAt = null;
+    if (watch.lastCheckedAt === null) {
+      await checkWatch(watch);
+    } else {
+      await saveWatch(watch);
+    }
+
+    const chainNames = chainIds.map(chainId => getChain(chainId).name).join(', ');
+    return buildWatchReport(clientId, 'watch', walletAddress, watch, existing && !chainsChanged
+      ? `Updated the watch on ${chainNames}: alerts at $${thresholds.minLossUSD} lost or ${thresholds.maxSlippageBps} bps slippage`
+      : `Watching ${chainNames} with ${watch.seenHashes.length} existing swaps as the baseline; new swaps are checked every ${getPollIntervalSeconds()} seconds and alerts are sent as MCP log messages`);
+  } catch (error) {
+    console.error('Error watching wallet:', error);
+    throw new Error(`Failed to watch wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function unwatchWallet(walletAddress: string, clientId: string = LOCAL_CLIENT_ID): Promise<WatchReport> {
+  assertWalletAddress(walletAddress);
+
+  try {
+    const removed = await deleteWatch(clientId, walletAddress);
+    if (!removed) {
+      throw new Error(`${walletAddress} is not being watched`);
+    }
+    return buildWatchReport(clientId, 'unwatch', walletAddress, removed, `Stopped watching after ${removed.swapsSeen} new swaps and ${removed.alertsSent} alerts`);
+  } catch (error) {
+    console.error('Error unwatching wallet:', error);
+    throw new Error(`Failed to unwatch wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,175 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { Server as NodeHttpServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authTokens: string[];
+  requestsPerMinute: number;
+}
+
+// One MCP server instance per SSE session
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface SessionEntry {
+  transport: SSEServerTransport;
+  session: McpSession;
+  clientId: string;
+}
+
+interface QuotaWindow {
+  windowStart: number;
+  count: number;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const QUOTA_WINDOW_MS = 60000;
+
+export function getHttpTransportOptions(): HttpTransportOptions {
+  return {
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.MCP_HTTP_PORT || '') || 3000,
+    authTokens: (process.env.MCP_AUTH_TOKENS || '').split(',').map(token => token.trim()).filter(Boolean),
+    requestsPerMinute: parseInt(process.env.MCP_CLIENT_REQUESTS_PER_MINUTE || '') || 60,
+  };
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Serve MCP over SSE: clients open GET /sse and POST JSON-RPC messages to /messages?sessionId=...
+export function startHttpTransport(
+  createSession: (clientId: string) => McpSession,
+  options: HttpTransportOptions = getHttpTransportOptions()
+): Promise<NodeHttpServer> {
+  const sessions = new Map<string, SessionEntry>();
+  const quotas = new Map<string, QuotaWindow>();
+  const tokenHashes = options.authTokens.map(hashToken);
+  const startedAt = Date.now();
+
+  if (tokenHashes.length === 0) {
+    console.error('[HTTP] MCP_AUTH_TOKENS is not set - the HTTP transport is running without authentication');
+  }
+
+  // Returns a stable client id for quota accounting, or null if the request is not authorized
+  const authenticate = (req: IncomingMessage): string | null => {
+    if (tokenHashes.length === 0) {
+      return `ip:${req.socket.remoteAddress || 'unknown'}`;
+    }
+
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return null;
+
+    const presented = hashToken(match[1].trim());
+    const authorized = tokenHashes.some(hash => timingSafeEqual(hash, presented));
+    return authorized ? `token:${presented.toString('hex').slice(0, 12)}` : null;
+  };
+
+  const consumeQuota = (clientId: string): number | null => {
+    const now = Date.now();
+    const window = quotas.get(clientId);
+    if (!window || now - window.windowStart >= QUOTA_WINDOW_MS) {
+      quotas.set(clientId, { windowStart: now, count: 1 });
+      return null;
+    }
+    if (window.count >= options.requestsPerMinute) {
+      return Math.ceil((window.windowStart + QUOTA_WINDOW_MS - now) / 1000);
+    }
+    window.count++;
+    return null;
+  };
+
+  const handleSse = async (res: ServerResponse, clientId: string) => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const session = createSession(clientId);
+    sessions.set(transport.sessionId, { transport, session, clientId });
+
+    await session.connect(transport);
+
+    // connect() installs the server's own close handler, so chain the cleanup onto it. Closing the
+    // session closes the transport again, which must not recurse.
+    const onclose = transport.onclose;
+    let closed = false;
+    transport.onclose = () => {
+      onclose?.();
+      if (closed) return;
+      closed = true;
+      sessions.delete(transport.sessionId);
+      session.close().catch(error => console.error('[HTTP] Error closing session:', error));
+    };
+  };
+
+  const handleMessage = async (req: IncomingMessage, res: ServerResponse, url: URL, clientId: string) => {
+    const entry = sessions.get(url.searchParams.get('sessionId') || '');
+    // Sessions can only be used by the client that opened them
+    if (!entry || entry.clientId !== clientId) {
+      sendJson(res, 404, { error: 'Unknown session' });
+      return;
+    }
+
+    const retryAfter = consumeQuota(clientId);
+    if (retryAfter !== null) {
+      sendJson(res, 429, { error: 'Request quota exceeded' }, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    await entry.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+      if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      const clientId = authenticate(req);
+      if (!clientId) {
+        sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        await handleSse(res, clientId);
+      } else if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        await handleMessage(req, res, url, clientId);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error('[HTTP] Request error:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      console.error(`DeFi Analyzer MCP Server listening on http://${options.host}:${options.port}${SSE_PATH} 🚀`);
+      resolve(httpServer);
+    });
+  });
+}
@@ -1,5 +1,7 @@
 export interface SwapTransaction {
   hash: string;
+  chain_id: number;
+  block_number?: number;
   timestamp: string;
   from_token: string;
   to_token: string;
@@ -9,9 +11,89 @@ export interface SwapTransaction {
   to_amount: number;
   gas_used: number;
   gas_price: number;
+  base_fee_per_gas?: number;
   dex: string;
   usd_value?: number;
-  slippage?: number;
+  trader?: string;
+  recipient?: string;
+  log_index?: number;
+  // Position of this swap among the logical swaps of its transaction, set only when a transaction
+  // (a batch or multicall) holds more than one; see swapKey
+  leg?: number;
+  // Set when several rows of one transaction were merged into this swap: its hops in execution
+  // order and the distinct venues they used (`dex` then joins the venues)
+  hops?: SwapHop[];
+  venues?: string[];
+  gas_cost?: GasCost;
+}
+
+// One row of a multi-hop trade, as reported by the data source
+export type SwapHop = Pick<
+  SwapTransaction,
+  'from_token' | 'to_token' | 'from_token_address' | 'to_token_address' | 'from_amount' | 'to_amount' | 'dex' | 'usd_value' | 'log_index'
+>;
+
+// Gas paid by a transaction in the chain's native token and in USD at the time of the block.
+// The base fee / priority tip split is only available for EIP-1559 data with a known base fee.
+export interface GasCost {
+  nativeToken: string;
+  costNative: number;
+  costUSD: number | null;
+  nativePriceUSD: number | null;
+  gasPriceGwei: number;
+  baseFeeNative: number | null;
+  priorityFeeNative: number | null;
+}
+
+export interface NativeGasTotal {
+  nativeToken: string;
+  transactions: number;
+  totalCost: number;
+  baseFee: number | null;
+  priorityFee: number | null;
+}
+
+export interface GasCostSummary {
+  totalCostUSD: number;
+  baseFeeUSD: number | null;
+  priorityFeeUSD: number | null;
+  nativeTotals: NativeGasTotal[];
+  feeSplitTransactions: number;
+  unpricedTransactions: number;
+}
+
+export interface ExecutionQuality {
+  status: 'measured' | 'unknown';
+  referenceSource: 'historical_price' | null;
+  referencePrices?: { from: PriceQuote; to: PriceQuote };
+  referenceRate: number | null;
+  realizedRate: number;
+  slippageBps: number | null;
+  reason?: string;
+}
+
+// A token price lookup by chain and contract address; without a timestamp the current price is
+// wanted. blockNumber lets on-chain oracles read the state at the block of a swap.
+export interface PriceRequest {
+  chainId: number;
+  address: string;
+  symbol?: string;
+  timestamp?: string;
+  blockNumber?: number;
+}
+
+// A USD price, the oracle that produced it and the time the price refers to
+export interface PriceQuote {
+  priceUSD: number;
+  source: string;
+  timestamp: string;
+}
+
+// null means the oracle has no price for the token; errors mean the lookup itself failed
+export interface PriceOracle {
+  name: string;
+  isConfigured(chainId: number): boolean;
+  getPrice(request: PriceRequest): Promise<PriceQuote | null>;
 }
 
 export interface OneInchQuote {
@@ -22,13 +104,42 @@ export interface OneInchQuote {
   toTokenAmount?: string;
 }
 
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  duneBlockchain: string;
+  rpcUrlEnv: string;
+  nativeSymbol: string;
+  nativeCoingeckoId: string;
+  coingeckoPlatform: string;
+  defillamaChain: string;
+  wrappedNativeAddress: string;
+  uniswapV2Router: string;
+  uniswapV3Quoter: string;
+  uniswapV3Factory: string;
+  blockTimeSeconds: number;
+}
+
 export interface TokenInfo {
+  chainId: number;
   address: string;
   symbol: string;
+  name?: string;
   decimals: number;
   logoURI?: string;
 }
 
+export interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: {
+    major: number;
+    minor: number;
+    patch: number;
+  };
+  tokens: TokenInfo[];
+}
+
 export interface DuneQueryResult {
   execution_id: string;
   query_id: number;
@@ -44,6 +155,8 @@ export interface DuneQueryResult {
 export interface DuneSwapRow {
   tx_hash: string;
   block_time: string;
+  block_number?: string;
+  blockchain?: string;
   token_sold_symbol: string;
   token_bought_symbol: string;
   token_sold_address: string;
@@ -53,33 +166,258 @@ export interface DuneSwapRow {
   amount_usd: string;
   gas_used: string;
   gas_price: string;
+  base_fee_per_gas?: string;
   project: string;
   trader: string;
+  recipient?: string;
+  evt_index?: string;
+}
+
+// A wallet's failed swap attempts and approvals, from the query configured in DUNE_OVERHEAD_QUERY_ID
+export interface DuneOverheadRow {
+  tx_hash: string;
+  block_time: string;
+  block_number?: string;
+  kind: string;
+  tx_to: string;
+  token_address?: string;
+  token_symbol?: string;
+  spender?: string;
+  amount?: string;
+  gas_used: string;
+  gas_price: string;
+  base_fee_per_gas?: string;
+}
+
+export interface DuneBlockTradeRow {
+  tx_hash: string;
+  tx_index?: string;
+  evt_index: string;
+  tx_from: string;
+  project_contract_address: string;
+  token_sold_address: string;
+  token_bought_address: string;
+  token_sold_amount: string;
+  token_bought_amount: string;
+}
+
+// Inclusive window for swap history; dates are ISO 8601 strings
+export interface SwapRange {
+  from?: string;
+  to?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface SwapQuery {
+  walletAddress: string;
+  chainId: number;
+  limit: number;
+  range?: SwapRange;
+  cursor?: string;
+}
+
+// One page of swaps, newest first; nextCursor is set when older swaps remain
+export interface SwapPage {
+  swaps: SwapTransaction[];
+  nextCursor?: string;
+}
+
+export type OverheadKind = 'failed_swap' | 'approval' | 'permit2_approval' | 'permit2_permit';
+
+// A transaction that cost the wallet gas without producing a swap: a reverted swap attempt, an ERC-20
+// approve or a Permit2 approval. Permit2 permits are signed off-chain and usually ride along in the swap
+// that consumes them, so they only carry gas when the wallet submitted one on its own.
+export interface OverheadTransaction {
+  hash: string;
+  chain_id: number;
+  block_number?: number;
+  timestamp: string;
+  kind: OverheadKind;
+  to: string;
+  token?: string;
+  token_address?: string;
+  spender?: string;
+  amount?: string;
+  gas_used: number;
+  gas_price: number;
+  base_fee_per_gas?: number;
+  gas_cost?: GasCost;
+}
+
+export interface SwapDataSource {
+  readonly name: string;
+  fetchSwaps(query: SwapQuery): Promise<SwapPage>;
+  // Only sources that can see non-swap transactions implement this; the cursor is ignored
+  fetchOverhead?(query: SwapQuery): Promise<OverheadTransaction[]>;
+}
+
+export interface SwapHistory {
+  transactions: SwapTransaction[];
+  truncated: boolean;
+}
+
+export type CounterfactualMethod = 'fork_simulation' | 'historical_price' | 'current_quote';
+
+// What the best alternative route would have returned for a swap, and how that was established
+export interface Counterfactual {
+  method: CounterfactualMethod;
+  confidence: 'high' | 'medium' | 'low';
+  amountOut: number;
+  route: string;
+  blockNumber?: number;
+  note?: string;
+}
+
+export interface SwapComparison {
+  txHash: string;
+  chainId: number;
+  leg?: number;
+  actualRoute: string;
+  optimalRoute: string;
+  gasDifference: number;
+  gasDifferenceNative: number;
+  gasDifferenceUSD: number | null;
+  actualGasCost: GasCost;
+  slippageBps: number | null;
+  slippageStatus: ExecutionQuality['status'];
+  actualAmountOut: number;
+  optimalAmountOut: number;
+  currentQuoteAmountOut: number | null;
+  counterfactual: Counterfactual;
 }
 
 export interface ComparisonResult {
   success: boolean;
   wallet: string;
+  chainIds: number[];
   totalTransactions: number;
   totalActualGas: number;
   totalOptimalGas: number;
   gasSavingsPotential: number;
-  averageSlippageActual: number;
+  gasSavingsPotentialUSD: number;
+  actualGasCost: GasCostSummary;
+  averageSlippageBps: number | null;
+  unmeasuredSlippageCount: number;
+  counterfactualMethods: Record<CounterfactualMethod, number>;
+  recommendations: Recommendation[];
+  detailedComparisons: SwapComparison[];
+}
+
+export type RecommendationCategory = 'gas' | 'routing' | 'slippage' | 'mev' | 'venue' | 'timing' | 'efficiency' | 'strategy' | 'approvals' | 'data_quality';
+
+export type RecommendationSeverity = 'high' | 'medium' | 'low' | 'info';
+
+// One rule's finding: estimatedImpactUSD is the value at stake when it can be estimated, and
+// txHashes lists the swaps the finding is based on (empty for wallet-wide findings)
+export interface Recommendation {
+  id: string;
+  category: RecommendationCategory;
+  severity: RecommendationSeverity;
+  message: string;
+  estimatedImpactUSD: number | null;
+  txHashes: string[];
+}
+
+// Per-call overrides on top of the rules enabled in the config file
+export interface RecommendationSelection {
+  enabledRules?: string[];
+  disabledRules?: string[];
+}
+
+// A sell-side quote request; amounts are in base units
+export interface AggregatorQuoteRequest {
+  chainId: number;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  fromDecimals: number;
+  toDecimals: number;
+  amount: string;
+  taker: string;
+}
+
+export interface AggregatorQuote {
+  aggregator: string;
+  toAmount: string;
+  estimatedGas: number | null;
+  route: string;
+}
+
+export interface Aggregator {
+  name: string;
+  supportedChains: number[];
+  isConfigured(): boolean;
+  quote(request: AggregatorQuoteRequest): Promise<AggregatorQuote>;
+}
+
+export interface AggregatorQuoteOutcome {
+  aggregator: string;
+  status: 'quoted' | 'failed' | 'unsupported';
+  amountOut: number | null;
+  estimatedGas: number | null;
+  route: string | null;
+  differenceBps: number | null;
+  error?: string;
+}
+
+export interface AggregatorTradeComparison {
+  txHash: string;
+  chainId: number;
+  timestamp: string;
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  actualRoute: string;
+  actualAmountOut: number;
+  winner: string | null;
+  bestAmountOut: number | null;
+  improvementBps: number | null;
+  spreadBps: number | null;
+  quotes: AggregatorQuoteOutcome[];
+}
+
+export interface AggregatorStanding {
+  aggregator: string;
+  quoted: number;
+  failed: number;
+  wins: number;
+  averageDifferenceBps: number | null;
+}
+
+export interface AggregatorComparisonResult {
+  success: boolean;
+  wallet: string;
+  chainIds: number[];
+  aggregators: string[];
+  totalTransactions: number;
+  comparedTransactions: number;
+  standings: AggregatorStanding[];
+  trades: AggregatorTradeComparison[];
   recommendations: string[];
-  detailedComparisons: Array<{
-    txHash: string;
-    actualRoute: string;
-    optimalRoute: string;
-    gasDifference: number;
-    slippageDifference: number;
-    actualAmountOut: number;
-    optimalAmountOut: number;
-  }>;
+}
+
+export interface ScoreFactor {
+  name: string;
+  value: number | null;
+  unit: string;
+  weight: number;
+  points: number;
+  explanation: string;
+}
+
+export interface ScoreBreakdown {
+  profile: string;
+  description?: string;
+  baseScore: number;
+  score: number;
+  factors: ScoreFactor[];
 }
 
 export interface SwapReportData {
   success: boolean;
   wallet: string;
+  ensName?: string;
+  chainIds: number[];
   reportGeneratedAt: string;
   summary: {
     totalSwaps: number;
@@ -91,17 +429,486 @@ export interface SwapReportData {
   gasAnalysis: {
     totalGasSpent: number;
     averageGasPrice: number;
+    averageGasPriceGwei: number;
     potentialSavings: number;
     savingsPercentage: number;
+    totalGasCostUSD: number;
+    potentialSavingsUSD: number;
+    baseFeeUSD: number | null;
+    priorityFeeUSD: number | null;
+    nativeTotals: NativeGasTotal[];
+    feeSplitTransactions: number;
+    unpricedTransactions: number;
+    failedSwapGasUSD: number;
+    approvalGasUSD: number;
+    overheadGasCostUSD: number;
+    totalGasCostWithOverheadUSD: number;
   };
   routingAnalysis: {
     optimalRoutes: number;
     suboptimalRoutes: number;
     missedOpportunities: string[];
   };
-  recommendations: string[];
-  timeRange: {
-    from: string;
-    to: string;
+  chainBreakdown: ChainBreakdown[];
+  scoreBreakdown: ScoreBreakdown;
+  mevAnalysis: MevAnalysis;
+  gasTiming: GasTimingAnalysis;
+  gasOverhead: GasOverheadAnalysis;
+  recommendations: Recommendation[];
+  timeRange: ReportTimeRange;
+  coverage: ReportCoverage;
+}
+
+export type ReportFormat = 'json' | 'markdown' | 'csv' | 'html';
+
+export interface SwapReportBundle {
+  report: SwapReportData;
+  transactions: SwapTransaction[];
+  comparisons: SwapComparison[];
+}
+
+export interface FormattedReport {
+  format: ReportFormat;
+  mimeType: string;
+  text: string;
+}
+
+export interface ChainBreakdown {
+  chainId: number;
+  chainName: string;
+  totalSwaps: number;
+  totalVolumeUSD: number;
+  totalGasSpent: number;
+  gasSpentNative: number;
+  gasSpentUSD: number;
+  nativeToken: string;
+  nativeTokenPriceUSD: number;
+  mostUsedDEX: string;
+}
+
+// A single pool swap in a block; amounts are in token units
+export interface PoolSwap {
+  txHash: string;
+  txIndex?: number;
+  logIndex: number;
+  pool: string;
+  sender?: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+}
+
+// Looks up the swaps that share a block and pool with one of the wallet's swaps
+export interface BlockSwapProvider {
+  name: string;
+  fetchBlockSwaps(tx: SwapTransaction): Promise<PoolSwap[]>;
+}
+
+export type MevPattern = 'sandwich' | 'backrun';
+
+export interface MevFinding {
+  pattern: MevPattern;
+  txHash: string;
+  chainId: number;
+  leg?: number;
+  blockNumber: number;
+  pool: string;
+  frontRunTx?: string;
+  backRunTx: string;
+  searcher?: string;
+  extractedAmount: number | null;
+  extractedToken: string | null;
+  extractedValueUSD: number | null;
+}
+
+export interface MevAnalysis {
+  source: string | null;
+  swapsAnalyzed: number;
+  swapsSkipped: number;
+  sandwiched: number;
+  backrun: number;
+  totalExtractedUSD: number;
+  findings: MevFinding[];
+}
+
+// The hour-long block range starting `hoursAfter` hours after a swap with the lowest median base fee
+export interface GasTimingWindow {
+  hoursAfter: number;
+  startsAt: string;
+  medianBaseFeeGwei: number;
+}
+
+export interface GasTimingSwap {
+  txHash: string;
+  chainId: number;
+  leg?: number;
+  timestamp: string;
+  slot: string;
+  gasPriceGwei: number;
+  baseFeeGwei: number;
+  hourMedianBaseFeeGwei: number;
+  baseFeePercentile: number;
+  cheapestWindow: GasTimingWindow;
+  nativeToken: string;
+  potentialSavingsNative: number;
+  potentialSavingsUSD: number | null;
+}
+
+// The wallet's swaps in one hour of the week (UTC)
+export interface GasTimingBucket {
+  dayOfWeek: number;
+  hour: number;
+  slot: string;
+  swaps: number;
+  averageGasPriceGwei: number;
+  averageBaseFeeGwei: number | null;
+  averageBaseFeePercentile: number | null;
+  potentialSavingsUSD: number;
+}
+
+export interface GasTimingAnalysis {
+  source: string | null;
+  windowHours: number;
+  swapsAnalyzed: number;
+  swapsSkipped: number;
+  averageBaseFeePercentile: number | null;
+  totalGasCostUSD: number;
+  potentialSavingsUSD: number;
+  savingsPercentage: number | null;
+  potentialSavingsNative: { nativeToken: string; amount: number }[];
+  buckets: GasTimingBucket[];
+  swaps: GasTimingSwap[];
+  advice: string[];
+}
+
+export interface GasTimingOptions {
+  ensName?: string;
+  range?: SwapRange;
+  limit?: number;
+  windowHours?: number;
+}
+
+export interface GasTimingReport extends GasTimingAnalysis {
+  success: boolean;
+  wallet: string;
+  ensName?: string;
+  chainIds: number[];
+  timeRange: ReportTimeRange;
+  historyTruncated: boolean;
+}
+
+export type AllowanceMechanism = 'erc20' | 'permit2';
+
+// An allowance the wallet still grants a swap contract; amount is in token units, null when the
+// token's decimals are unknown
+export interface TokenAllowance {
+  chainId: number;
+  token: string;
+  tokenAddress: string;
+  spender: string;
+  spenderName: string;
+  mechanism: AllowanceMechanism;
+  amount: number | null;
+  unlimited: boolean;
+  expiresAt: string | null;
+}
+
+export interface AllowanceCheck {
+  pairsChecked: number;
+  outstanding: TokenAllowance[];
+  unlimited: number;
+}
+
+export interface GasOverheadAnalysis {
+  source: string | null;
+  failedSwaps: number;
+  approvals: number;
+  permit2Approvals: number;
+  permit2Permits: number;
+  failedSwapGasUSD: number;
+  approvalGasUSD: number;
+  totalCostUSD: number;
+  nativeTotals: NativeGasTotal[];
+  unpricedTransactions: number;
+  transactions: OverheadTransaction[];
+  allowances: AllowanceCheck | null;
+}
+
+export interface GasOverheadOptions {
+  ensName?: string;
+  range?: SwapRange;
+  limit?: number;
+}
+
+export interface GasOverheadReport extends GasOverheadAnalysis {
+  success: boolean;
+  wallet: string;
+  ensName?: string;
+  chainIds: number[];
+  timeRange: ReportTimeRange;
+}
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface PnlOptions {
+  ensName?: string;
+  method?: CostBasisMethod;
+  range?: SwapRange;
+  limit?: number;
+}
+
+// One disposal matched against one acquisition lot (or the average-cost pool)
+export interface LedgerEntry {
+  token: string;
+  tokenAddress: string;
+  chainId: number;
+  quantity: number;
+  acquiredAt: string | null;
+  acquisitionTx: string | null;
+  disposedAt: string;
+  disposalTx: string;
+  proceedsUSD: number | null;
+  costBasisUSD: number | null;
+  gainUSD: number | null;
+  holdingPeriodDays: number | null;
+  term: 'short' | 'long' | null;
+}
+
+export interface TokenPnl {
+  token: string;
+  tokenAddress: string;
+  chainId: number;
+  disposals: number;
+  quantityDisposed: number;
+  proceedsUSD: number;
+  costBasisUSD: number;
+  realizedGainUSD: number;
+  unmatchedQuantity: number;
+}
+
+export interface UnrealizedPosition {
+  token: string;
+  tokenAddress: string;
+  chainId: number;
+  quantity: number;
+  costBasisUSD: number | null;
+  currentPriceUSD: number | null;
+  marketValueUSD: number | null;
+  unrealizedGainUSD: number | null;
+}
+
+export interface PnlReport {
+  success: boolean;
+  wallet: string;
+  ensName?: string;
+  chainIds: number[];
+  method: CostBasisMethod;
+  generatedAt: string;
+  timeRange: ReportTimeRange;
+  totals: {
+    swaps: number;
+    proceedsUSD: number;
+    costBasisUSD: number;
+    realizedGainUSD: number;
+    shortTermGainUSD: number;
+    longTermGainUSD: number;
+    feesUSD: number;
+    marketValueUSD: number;
+    unrealizedGainUSD: number;
   };
-}
\ No newline at end of file
+  tokens: TokenPnl[];
+  positions: UnrealizedPosition[];
+  ledger: LedgerEntry[];
+  unpricedSwaps: string[];
+  historyTruncated: boolean;
+}
+
+export type CacheNamespace = 'swaps' | 'quotes' | 'prices';
+
+export interface CacheNamespaceStats {
+  namespace: CacheNamespace;
+  entries: number;
+  expiredEntries: number;
+  immutableEntries: number;
+  sizeBytes: number;
+  ttlSeconds: number;
+}
+
+export interface CacheReport {
+  success: boolean;
+  action: 'stats' | 'clear' | 'prune';
+  cacheDir: string;
+  removedEntries?: number;
+  namespaces: CacheNamespaceStats[];
+}
+
+export type WalletResourceKind = 'transactions' | 'report';
+
+export interface WalletResourceRef {
+  chainIds: number[];
+  walletAddress: string;
+  kind: WalletResourceKind;
+}
+
+export interface ResolvedWallet {
+  address: string;
+  ensName?: string;
+}
+
+export interface ReportOptions {
+  ensName?: string;
+  range?: SwapRange;
+  limit?: number;
+  comparisonLimit?: number;
+  scoringProfile?: string;
+  recommendations?: RecommendationSelection;
+}
+
+export interface ComparisonOptions {
+  range?: SwapRange;
+  limit?: number;
+  transactions?: SwapTransaction[];
+  recommendations?: RecommendationSelection;
+}
+
+export interface AggregatorComparisonOptions extends ComparisonOptions {
+  aggregators?: string[];
+}
+
+export interface PortfolioOptions {
+  group?: string;
+  range?: SwapRange;
+  limit?: number;
+}
+
+// The window a report covers: the requested range when one was given, otherwise the swaps found
+export interface ReportTimeRange {
+  from: string;
+  to: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface ReportCoverage {
+  transactionsAnalyzed: number;
+  transactionsCompared: number;
+  historyTruncated: boolean;
+}
+
+export interface PortfolioWalletBreakdown {
+  wallet: string;
+  ensName?: string;
+  totalSwaps: number;
+  tradingSwaps: number;
+  tradingVolumeUSD: number;
+  internalVolumeUSD: number;
+  totalGasSpent: number;
+  mostUsedDEX: string;
+}
+
+// A swap initiated by one group wallet that paid out to another group wallet
+export interface InternalTransfer {
+  txHash: string;
+  chainId: number;
+  fromWallet: string;
+  toWallet: string;
+  fromToken: string;
+  toToken: string;
+  volumeUSD: number;
+}
+
+// Two swaps by different group wallets that cancel each other out
+export interface RoundTrip {
+  chainId: number;
+  txHashes: [string, string];
+  wallets: [string, string];
+  tokens: [string, string];
+  amountDifferencePercent: number;
+  hoursApart: number;
+  volumeUSD: number;
+}
+
+export interface PortfolioReportData {
+  success: boolean;
+  group?: string;
+  wallets: ResolvedWallet[];
+  chainIds: number[];
+  reportGeneratedAt: string;
+  summary: {
+    totalSwaps: number;
+    tradingSwaps: number;
+    totalVolumeUSD: number;
+    internalVolumeUSD: number;
+    averageGasUsed: number;
+    mostUsedDEX: string;
+  };
+  gasAnalysis: {
+    totalGasSpent: number;
+    averageGasPrice: number;
+    totalGasCostUSD: number;
+    nativeTotals: NativeGasTotal[];
+  };
+  walletBreakdown: PortfolioWalletBreakdown[];
+  chainBreakdown: ChainBreakdown[];
+  internalActivity: {
+    internalTransfers: InternalTransfer[];
+    roundTrips: RoundTrip[];
+  };
+  timeRange: ReportTimeRange;
+  historyTruncated: boolean;
+}
+
+// A swap is flagged once its estimated loss reaches minLossUSD or its slippage reaches maxSlippageBps
+export interface WatchThresholds {
+  minLossUSD: number;
+  maxSlippageBps: number;
+}
+
+export interface WalletWatch {
+  wallet: string;
+  ensName?: string;
+  chainIds: number[];
+  thresholds: WatchThresholds;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  swapsSeen: number;
+  alertsSent: number;
+}
+
+// A new swap on a watched wallet that crossed the watch's thresholds
+export interface WatchAlert {
+  wallet: string;
+  ensName?: string;
+  chainId: number;
+  txHash: string;
+  timestamp: string;
+  pair: string;
+  actualRoute: string;
+  optimalRoute: string;
+  lossUSD: number | null;
+  slippageBps: number | null;
+  reasons: string[];
+  message: string;
+  comparison: SwapComparison;
+}
+
+export interface WatchOptions {
+  // The client registering the watch; watches and alerts are private to it
+  clientId?: string;
+  ensName?: string;
+  minLossUSD?: number;
+  maxSlippageBps?: number;
+}
+
+export interface WatchReport {
+  success: boolean;
+  action: 'watch' | 'unwatch';
+  wallet: string;
+  watch: WalletWatch | null;
+  message: string;
+  pollIntervalSeconds: number;
+  storePath: string;
+  watches: WalletWatch[];
+}
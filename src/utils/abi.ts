@@ -0,0 +1,57 @@
+// Minimal ABI encoding/decoding helpers for the handful of contract calls we make over JSON-RPC
+
+// Strip the 0x prefix and split hex data into 32-byte words
+export function toWords(data: string): string[] {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const words: string[] = [];
+  for (let i = 0; i + 64 <= hex.length; i += 64) {
+    words.push(hex.slice(i, i + 64));
+  }
+  return words;
+}
+
+export function decodeUint256(word: string): bigint {
+  const hex = word.startsWith('0x') ? word.slice(2) : word;
+  return hex.length === 0 ? 0n : BigInt(`0x${hex}`);
+}
+
+// Decode a two's complement int256 word
+export function decodeInt256(word: string): bigint {
+  const value = decodeUint256(word);
+  return value >= 1n << 255n ? value - (1n << 256n) : value;
+}
+
+export function decodeAddress(word: string): string {
+  const hex = word.startsWith('0x') ? word.slice(2) : word;
+  return `0x${hex.slice(-40)}`.toLowerCase();
+}
+
+// Decode a dynamic `string` return value, falling back to bytes32 (e.g. MKR's symbol())
+export function decodeAbiString(data: string): string {
+  const words = toWords(data);
+  if (words.length === 0) return '';
+
+  if (words.length >= 2 && decodeUint256(words[0]) === 32n) {
+    const length = Number(decodeUint256(words[1]));
+    const hex = words.slice(2).join('').slice(0, length * 2);
+    return Buffer.from(hex, 'hex').toString('utf8');
+  }
+
+  return Buffer.from(words[0], 'hex').toString('utf8').replace(/\u0000+$/, '');
+}
+
+export function encodeUint256(value: bigint | number): string {
+  return BigInt(value).toString(16).padStart(64, '0');
+}
+
+export function encodeAddress(address: string): string {
+  return address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+}
+
+// Encode a call with static arguments only (addresses and uints)
+export function encodeCall(selector: string, args: Array<string | bigint | number> = []): string {
+  const encodedArgs = args.map(arg =>
+    typeof arg === 'string' ? encodeAddress(arg) : encodeUint256(arg)
+  );
+  return `${selector}${encodedArgs.join('')}`;
+}
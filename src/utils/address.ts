@@ -0,0 +1,38 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+export function keccak256Hex(data: string | Uint8Array): string {
+  return bytesToHex(keccak_256(typeof data === 'string' ? utf8ToBytes(data) : data));
+}
+
+export function isHexAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+// EIP-55 mixed-case checksum encoding
+export function toChecksumAddress(address: string): string {
+  if (!isHexAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak256Hex(lower);
+  const checksummed = lower
+    .split('')
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join('');
+
+  return `0x${checksummed}`;
+}
+
+// All-lowercase and all-uppercase addresses carry no checksum; mixed case must match EIP-55
+export function hasValidChecksum(address: string): boolean {
+  if (!isHexAddress(address)) return false;
+  const body = address.slice(2);
+  if (body === body.toLowerCase() || body === body.toUpperCase()) return true;
+  return toChecksumAddress(address) === address;
+}
+
+export function isEnsName(value: string): boolean {
+  return /^([a-z0-9_-]+\.)+[a-z0-9-]+$/i.test(value) && !value.startsWith('0x');
+}
@@ -0,0 +1,117 @@
+import { ethCall } from './rpc.js';
+import { decodeUint256, encodeCall, toWords } from './abi.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { fromBaseUnits, isNativeToken, resolveToken } from './tokens.js';
+import { getSwapSpenders, PERMIT2_ADDRESS } from '../data/routers.js';
+import type { AllowanceCheck, AllowanceMechanism, TokenAllowance } from '../types/index.js';
+
+// allowance(owner, spender) on ERC-20s; allowance(owner, token, spender) on Permit2
+const ALLOWANCE_SELECTOR = '0xdd62ed3e';
+const PERMIT2_ALLOWANCE_SELECTOR = '0x927da105';
+
+const ALLOWANCE_CONCURRENCY = 8;
+const MAX_ALLOWANCE_TOKENS = 25;
+
+// Far beyond any real balance: max uint256 approvals and Permit2's max uint160 both qualify
+const UNLIMITED_ALLOWANCE = 1n << 128n;
+
+// A token the wallet traded or approved, and the spender it approved when known
+export interface AllowanceCandidate {
+  tokenAddress: string;
+  spender?: string;
+}
+
+interface AllowancePair {
+  tokenAddress: string;
+  spender: string;
+  mechanism: AllowanceMechanism;
+}
+
+interface AllowanceReading {
+  amount: bigint;
+  expiresAt: string | null;
+}
+
+async function readAllowance(chainId: number, walletAddress: string, pair: AllowancePair): Promise<AllowanceReading | null> {
+  try {
+    if (pair.mechanism === 'erc20') {
+      const result = await ethCall(chainId, pair.tokenAddress, encodeCall(ALLOWANCE_SELECTOR, [walletAddress, pair.spender]));
+      return { amount: decodeUint256(toWords(result)[0] ?? ''), expiresAt: null };
+    }
+
+    // Permit2 returns (uint160 amount, uint48 expiration, uint48 nonce); expired allowances cannot be spent
+    const [amount, expiration] = toWords(
+      await ethCall(chainId, PERMIT2_ADDRESS, encodeCall(PERMIT2_ALLOWANCE_SELECTOR, [walletAddress, pair.tokenAddress, pair.spender]))
+    ).map(decodeUint256);
+    if (expiration === undefined || Number(expiration) * 1000 <= Date.now()) return null;
+    return { amount, expiresAt: new Date(Number(expiration) * 1000).toISOString() };
+  } catch (error) {
+    // Not an ERC-20, or the call reverted
+    return null;
+  }
+}
+
+// Read the wallet's current allowances for each token to every known swap spender, plus spenders it
+// approved directly. Tokens approved to Permit2 are also checked for Permit2 allowances to the same
+// spenders. Only non-zero allowances are returned, unlimited ones first.
+export async function checkAllowances(
+  walletAddress: string,
+  chainId: number,
+  candidates: AllowanceCandidate[]
+): Promise<AllowanceCheck> {
+  const spenderNames = getSwapSpenders(chainId);
+  const permit2 = PERMIT2_ADDRESS.toLowerCase();
+
+  const spendersByToken = new Map<string, Set<string>>();
+  for (const candidate of candidates) {
+    const token = candidate.tokenAddress.toLowerCase();
+    if (!token || isNativeToken(token)) continue;
+    if (!spendersByToken.has(token)) {
+      if (spendersByToken.size >= MAX_ALLOWANCE_TOKENS) continue;
+      spendersByToken.set(token, new Set(Object.keys(spenderNames)));
+    }
+    if (candidate.spender) spendersByToken.get(token)!.add(candidate.spender.toLowerCase());
+  }
+
+  const erc20Pairs: AllowancePair[] = Array.from(spendersByToken.entries()).flatMap(([tokenAddress, spenders]) =>
+    Array.from(spenders).map(spender => ({ tokenAddress, spender, mechanism: 'erc20' as const }))
+  );
+  const erc20Readings = await mapWithConcurrency(erc20Pairs, ALLOWANCE_CONCURRENCY, pair => readAllowance(chainId, walletAddress, pair));
+
+  // Permit2 allowances only matter once the token itself is approved to Permit2
+  const permit2Pairs: AllowancePair[] = erc20Pairs
+    .filter((pair, index) => pair.spender === permit2 && (erc20Readings[index]?.amount ?? 0n) > 0n)
+    .flatMap(pair => Array.from(spendersByToken.get(pair.tokenAddress)!)
+      .filter(spender => spender !== permit2)
+      .map(spender => ({ tokenAddress: pair.tokenAddress, spender, mechanism: 'permit2' as const })));
+  const permit2Readings = await mapWithConcurrency(permit2Pairs, ALLOWANCE_CONCURRENCY, pair => readAllowance(chainId, walletAddress, pair));
+
+  const pairs = [...erc20Pairs, ...permit2Pairs];
+  const readings = [...erc20Readings, ...permit2Readings];
+  const outstanding: TokenAllowance[] = [];
+
+  for (const [index, pair] of pairs.entries()) {
+    const reading = readings[index];
+    if (!reading || reading.amount === 0n) continue;
+
+    const token = await resolveToken(pair.tokenAddress, chainId);
+    outstanding.push({
+      chainId,
+      token: token?.symbol ?? pair.tokenAddress,
+      tokenAddress: pair.tokenAddress,
+      spender: pair.spender,
+      spenderName: spenderNames[pair.spender] ?? 'Unknown spender',
+      mechanism: pair.mechanism,
+      amount: token ? fromBaseUnits(reading.amount, token.decimals) : null,
+      unlimited: reading.amount >= UNLIMITED_ALLOWANCE,
+      expiresAt: reading.expiresAt,
+    });
+  }
+
+  outstanding.sort((a, b) => Number(b.unlimited) - Number(a.unlimited));
+  return {
+    pairsChecked: pairs.length,
+    outstanding,
+    unlimited: outstanding.filter(allowance => allowance.unlimited).length,
+  };
+}
@@ -1,104 +1,272 @@
 import axios from 'axios';
-import type { SwapTransaction, OneInchQuote, DuneQueryResult, TokenInfo } from '../types/index.js';
-
-// Token address mappings for major tokens
-const TOKEN_ADDRESSES: Record<string, string> = {
-  'WETH': '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-  'USDC': '0xA0b86a33E6417c4c4c4c4c4c4c4c4c4c4c4c4c4c',
-  'USDT': '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-  'DAI': '0x6B175474E89094C44Da98b954EedeAC495271d0F',
-  'WBTC': '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
-};
-
-// Get token address from symbol
-function getTokenAddress(symbol: string): string {
-  return TOKEN_ADDRESSES[symbol.toUpperCase()] || symbol;
+import { DEFAULT_CHAIN_ID, getChain } from './chains.js';
+import { getTokenAddress, requireTokenDecimals, toBaseUnits } from './tokens.js';
+import { withCache, getCacheTtl } from './cache.js';
+import { httpGet, httpPost } from './http.js';
+import type { SwapTransaction, SwapPage, SwapRange, OneInchQuote, DuneQueryResult, DuneSwapRow, DuneBlockTradeRow, DuneOverheadRow, OverheadKind, OverheadTransaction, TokenInfo } from '../types/index.js';
+
+// Map a Dune DEX trade row (or a row in the same shape from a file export) to a SwapTransaction
+export function mapDuneRow(row: Partial<DuneSwapRow>, chainId: number): SwapTransaction {
+  return {
+    hash: row.tx_hash || 'unknown',
+    chain_id: chainId,
+    block_number: row.block_number ? parseInt(String(row.block_number)) : undefined,
+    timestamp: row.block_time || new Date().toISOString(),
+    from_token: row.token_sold_symbol || 'UNKNOWN',
+    to_token: row.token_bought_symbol || 'UNKNOWN',
+    from_token_address: row.token_sold_address || '',
+    to_token_address: row.token_bought_address || '',
+    from_amount: parseFloat(row.token_sold_amount || '0'),
+    to_amount: parseFloat(row.token_bought_amount || '0'),
+    gas_used: parseInt(row.gas_used || '0'),
+    gas_price: parseFloat(row.gas_price || '0'),
+    base_fee_per_gas: row.base_fee_per_gas ? parseFloat(row.base_fee_per_gas) : undefined,
+    dex: row.project || 'unknown',
+    usd_value: parseFloat(row.amount_usd || '0'),
+    trader: row.trader || undefined,
+    recipient: row.recipient || undefined,
+    log_index: row.evt_index !== undefined && row.evt_index !== '' ? parseInt(String(row.evt_index)) : undefined,
+  };
 }
 
-// Dune Analytics API - Real implementation
-export async function getDuneData(walletAddress: string, limit: number = 10): Promise<SwapTransaction[]> {
-  try {
-    const apiKey = process.env.DUNE_API_KEY;
-    if (!apiKey) {
-      throw new Error('DUNE_API_KEY not found in environment variables');
-    }
+// The hosted default query is Ethereum-only and takes no blockchain parameter. Other chains need a
+// query of the same shape that declares one, configured in DUNE_QUERY_ID.
+const DEFAULT_DUNE_QUERY_ID = '3238827';
+const DEFAULT_DUNE_MAX_ROWS = 10000;
 
-    // Use a real Dune query for DEX trades
-    // This query should fetch swap transactions for the given wallet
-    const queryId = '3238827';
+// Dune result filters compare block_time as 'YYYY-MM-DD HH:MM:SS'
+function toDuneTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+}
 
-    // First, execute the query with parameters
-    const executeResponse = await axios.post(
-      `https://api.dune.com/api/v1/query/${queryId}/execute`,
-      {
-        query_parameters: {
-          wallet_address: walletAddress.toLowerCase(),
-          limit_count: limit
-        }
-      },
+function buildDuneFilters(range?: SwapRange): string | undefined {
+  if (!range) return undefined;
+  const filters: string[] = [];
+  if (range.from !== undefined) filters.push(`block_time >= '${toDuneTimestamp(range.from)}'`);
+  if (range.to !== undefined) filters.push(`block_time <= '${toDuneTimestamp(range.to)}'`);
+  if (range.fromBlock !== undefined) filters.push(`block_number >= ${range.fromBlock}`);
+  if (range.toBlock !== undefined) filters.push(`block_number <= ${range.toBlock}`);
+  return filters.length > 0 ? filters.join(' AND ') : undefined;
+}
+
+// Poll an execution until its results are ready (completed executions answer immediately)
+async function pollDuneResults(executionId: string, params: Record<string, string | number>, apiKey: string): Promise<any> {
+  let attempts = 0;
+  const maxAttempts = 30;
+
+  while (attempts < maxAttempts) {
+    const resultResponse = await httpGet(
+      'dune',
+      `https://api.dune.com/api/v1/execution/${executionId}/results`,
       {
+        params,
         headers: {
           'X-Dune-API-Key': apiKey,
-          'Content-Type': 'application/json',
         },
       }
     );
 
-    const executionId = executeResponse.data.execution_id;
+    if (resultResponse.data.state === 'QUERY_STATE_COMPLETED') {
+      return resultResponse.data;
+    }
+
+    if (resultResponse.data.state === 'QUERY_STATE_FAILED') {
+      throw new Error('Dune query execution failed');
+    }
+
+    attempts++;
+    await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds
+  }
 
-    // Poll for results
-    let attempts = 0;
-    const maxAttempts = 30;
+  throw new Error('Dune query execution timeout');
+}
 
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds
+// Dune Analytics API - Real implementation.
+// The query is executed once for up to DUNE_MAX_ROWS rows and then read page by page;
+// the cursor is "<execution id>:<offset>" so later pages reuse the same execution.
+export async function getDuneData(
+  walletAddress: string,
+  limit: number = 10,
+  chainId: number = DEFAULT_CHAIN_ID,
+  options: { range?: SwapRange; cursor?: string } = {}
+): Promise<SwapPage> {
+  try {
+    const chain = getChain(chainId);
+    const apiKey = process.env.DUNE_API_KEY;
+    if (!apiKey) {
+      throw new Error('DUNE_API_KEY not found in environment variables');
+    }
 
-      const resultResponse = await axios.get(
-        `https://api.dune.com/api/v1/execution/${executionId}/results`,
+    const configuredQueryId = process.env.DUNE_QUERY_ID;
+    if (!configuredQueryId && chainId !== DEFAULT_CHAIN_ID) {
+      throw new Error(`The default Dune query only covers Ethereum; set DUNE_QUERY_ID to a query with a blockchain parameter to fetch ${chain.name} swaps`);
+    }
+
+    let executionId: string;
+    let offset = 0;
+
+    if (options.cursor) {
+      const separator = options.cursor.lastIndexOf(':');
+      executionId = options.cursor.slice(0, separator);
+      offset = parseInt(options.cursor.slice(separator + 1), 10);
+      if (!executionId || isNaN(offset)) {
+        throw new Error(`Invalid Dune cursor: ${options.cursor}`);
+      }
+    } else {
+      // Execute the query with parameters
+      const executeResponse = await httpPost(
+        'dune',
+        `https://api.dune.com/api/v1/query/${configuredQueryId || DEFAULT_DUNE_QUERY_ID}/execute`,
+        {
+          query_parameters: {
+            wallet_address: walletAddress.toLowerCase(),
+            limit_count: parseInt(process.env.DUNE_MAX_ROWS || '') || DEFAULT_DUNE_MAX_ROWS,
+            ...(configuredQueryId ? { blockchain: chain.duneBlockchain } : {}),
+          }
+        },
         {
           headers: {
             'X-Dune-API-Key': apiKey,
+            'Content-Type': 'application/json',
           },
         }
       );
+      executionId = executeResponse.data.execution_id;
+    }
 
-      if (resultResponse.data.state === 'QUERY_STATE_COMPLETED') {
-        const rows = resultResponse.data.result?.rows || [];
-
-        return rows.map((row: any) => ({
-          hash: row.tx_hash || 'unknown',
-          timestamp: row.block_time || new Date().toISOString(),
-          from_token: row.token_sold_symbol || 'UNKNOWN',
-          to_token: row.token_bought_symbol || 'UNKNOWN',
-          from_token_address: row.token_sold_address || '',
-          to_token_address: row.token_bought_address || '',
-          from_amount: parseFloat(row.token_sold_amount || '0'),
-          to_amount: parseFloat(row.token_bought_amount || '0'),
-          gas_used: parseInt(row.gas_used || '0'),
-          gas_price: parseFloat(row.gas_price || '0'),
-          dex: row.project || 'unknown',
-          usd_value: parseFloat(row.amount_usd || '0'),
-          slippage: calculateSlippage(
-            parseFloat(row.token_sold_amount || '0'),
-            parseFloat(row.token_bought_amount || '0'),
-            row.token_sold_symbol,
-            row.token_bought_symbol
-          )
-        }));
-      }
+    const params: Record<string, string | number> = { limit, offset };
+    const filters = buildDuneFilters(options.range);
+    if (filters) params.filters = filters;
 
-      if (resultResponse.data.state === 'QUERY_STATE_FAILED') {
-        throw new Error('Dune query execution failed');
-      }
+    const data = await pollDuneResults(executionId, params, apiKey);
+    const rows = data.result?.rows || [];
+    const nextOffset = data.next_offset;
+
+    return {
+      swaps: rows.map((row: DuneSwapRow) => mapDuneRow(row, chainId)),
+      nextCursor: typeof nextOffset === 'number' ? `${executionId}:${nextOffset}` : undefined,
+    };
 
-      attempts++;
+  } catch (error) {
+    console.error('Dune API error:', error);
+    throw new Error(`Failed to fetch transaction data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// All DEX trades in one block, from the Dune query configured in DUNE_BLOCK_TRADES_QUERY_ID
+// (parameters: blockchain, block_number). Blocks are final, so results are cached for good.
+export async function getDuneBlockTrades(chainId: number, blockNumber: number): Promise<DuneBlockTradeRow[]> {
+  try {
+    const chain = getChain(chainId);
+    const apiKey = process.env.DUNE_API_KEY;
+    const queryId = process.env.DUNE_BLOCK_TRADES_QUERY_ID;
+    if (!apiKey) {
+      throw new Error('DUNE_API_KEY not found in environment variables');
+    }
+    if (!queryId) {
+      throw new Error('DUNE_BLOCK_TRADES_QUERY_ID not found in environment variables');
     }
 
-    throw new Error('Dune query execution timeout');
+    return await withCache('swaps', ['block-trades', queryId, chainId, blockNumber], 'immutable', async () => {
+      const executeResponse = await httpPost(
+        'dune',
+        `https://api.dune.com/api/v1/query/${queryId}/execute`,
+        {
+          query_parameters: {
+            blockchain: chain.duneBlockchain,
+            block_number: blockNumber,
+          }
+        },
+        {
+          headers: {
+            'X-Dune-API-Key': apiKey,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
 
+      const data = await pollDuneResults(executeResponse.data.execution_id, {}, apiKey);
+      return data.result?.rows || [];
+    });
   } catch (error) {
     console.error('Dune API error:', error);
-    throw new Error(`Failed to fetch transaction data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to fetch block trades: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const OVERHEAD_KINDS: OverheadKind[] = ['failed_swap', 'approval', 'permit2_approval', 'permit2_permit'];
+
+// Map a Dune overhead row (or a row in the same shape from a file export) to an OverheadTransaction;
+// rows of an unknown kind are dropped
+export function mapDuneOverheadRow(row: Partial<DuneOverheadRow>, chainId: number): OverheadTransaction | null {
+  const kind = OVERHEAD_KINDS.find(known => known === row.kind?.toLowerCase());
+  if (!kind) return null;
+
+  return {
+    hash: row.tx_hash || 'unknown',
+    chain_id: chainId,
+    block_number: row.block_number ? parseInt(String(row.block_number)) : undefined,
+    timestamp: row.block_time || new Date().toISOString(),
+    kind,
+    to: row.tx_to?.toLowerCase() || '',
+    token: row.token_symbol || undefined,
+    token_address: row.token_address?.toLowerCase() || undefined,
+    spender: row.spender?.toLowerCase() || undefined,
+    amount: row.amount || undefined,
+    gas_used: parseInt(row.gas_used || '0'),
+    gas_price: parseFloat(row.gas_price || '0'),
+    base_fee_per_gas: row.base_fee_per_gas ? parseFloat(row.base_fee_per_gas) : undefined,
+  };
+}
+
+// The wallet's reverted swaps, approvals and Permit2 transactions from the query configured in
+// DUNE_OVERHEAD_QUERY_ID (parameters: wallet_address, blockchain, limit_count)
+export async function getDuneOverhead(
+  walletAddress: string,
+  limit: number,
+  chainId: number = DEFAULT_CHAIN_ID,
+  range?: SwapRange
+): Promise<OverheadTransaction[]> {
+  try {
+    const chain = getChain(chainId);
+    const apiKey = process.env.DUNE_API_KEY;
+    const queryId = process.env.DUNE_OVERHEAD_QUERY_ID;
+    if (!apiKey) {
+      throw new Error('DUNE_API_KEY not found in environment variables');
+    }
+    if (!queryId) {
+      throw new Error('DUNE_OVERHEAD_QUERY_ID not found in environment variables');
+    }
+
+    const executeResponse = await httpPost(
+      'dune',
+      `https://api.dune.com/api/v1/query/${queryId}/execute`,
+      {
+        query_parameters: {
+          wallet_address: walletAddress.toLowerCase(),
+          blockchain: chain.duneBlockchain,
+          limit_count: limit,
+        }
+      },
+      {
+        headers: {
+          'X-Dune-API-Key': apiKey,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    const params: Record<string, string | number> = { limit };
+    const filters = buildDuneFilters(range);
+    if (filters) params.filters = filters;
+
+    const data = await pollDuneResults(executeResponse.data.execution_id, params, apiKey);
+    return (data.result?.rows || [])
+      .map((row: DuneOverheadRow) => mapDuneOverheadRow(row, chainId))
+      .filter((tx: OverheadTransaction | null): tx is OverheadTransaction => tx !== null);
+  } catch (error) {
+    console.error('Dune API error:', error);
+    throw new Error(`Failed to fetch failed swaps and approvals: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -108,21 +276,22 @@ export async function getOneInchQuote(
   toTokenAddress: string,
   amount: string,
   fromTokenSymbol?: string,
-  toTokenSymbol?: string
+  toTokenSymbol?: string,
+  chainId: number = DEFAULT_CHAIN_ID
 ): Promise<OneInchQuote> {
   try {
     const apiKey = process.env.ONEINCH_API_KEY;
 
     // Convert token symbols to addresses if needed
-    const srcAddress = fromTokenAddress.startsWith('0x') ? fromTokenAddress : getTokenAddress(fromTokenSymbol || fromTokenAddress);
-    const dstAddress = toTokenAddress.startsWith('0x') ? toTokenAddress : getTokenAddress(toTokenSymbol || toTokenAddress);
+    const srcAddress = fromTokenAddress.startsWith('0x') ? fromTokenAddress : getTokenAddress(fromTokenSymbol || fromTokenAddress, chainId);
+    const dstAddress = toTokenAddress.startsWith('0x') ? toTokenAddress : getTokenAddress(toTokenSymbol || toTokenAddress, chainId);
 
-    // Convert amount to wei if it's a decimal
-    const amountInWei = amount.includes('.') ? 
-      (parseFloat(amount) * Math.pow(10, 18)).toString() : 
+    // Convert amount to base units using the source token's decimals if it's a decimal
+    const amountInWei = amount.includes('.') ?
+      toBaseUnits(amount, await requireTokenDecimals(srcAddress, chainId)) :
       amount;
 
-    const baseUrl = 'https://api.1inch.dev/swap/v6.0/1';
+    const baseUrl = `https://api.1inch.dev/swap/v6.0/${getChain(chainId).chainId}`;
     const endpoint = apiKey ? '/quote' : '/quote'; // Use public endpoint if no API key
 
     const headers: Record<string, string> = {
@@ -133,26 +302,30 @@ export async function getOneInchQuote(
       headers['Authorization'] = `Bearer ${apiKey}`;
     }
 
-    const response = await axios.get(`${baseUrl}${endpoint}`, {
-      headers,
-      params: {
-        src: srcAddress,
-        dst: dstAddress,
-        amount: amountInWei,
-        includeProtocols: true,
-        includeGas: true,
-      },
-      timeout: 10000, // 10 second timeout
+    // Quotes are cached per chain, token pair and amount; the API only quotes current liquidity
+    const cacheKey = [chainId, srcAddress.toLowerCase(), dstAddress.toLowerCase(), amountInWei];
+
+    return await withCache('quotes', cacheKey, getCacheTtl('quotes'), async () => {
+      const response = await httpGet('oneinch', `${baseUrl}${endpoint}`, {
+        headers,
+        params: {
+          src: srcAddress,
+          dst: dstAddress,
+          amount: amountInWei,
+          includeProtocols: true,
+          includeGas: true,
+        },
+      });
+
+      return {
+        toAmount: response.data.toAmount || response.data.toTokenAmount || '0',
+        estimatedGas: response.data.estimatedGas || response.data.gas || '150000',
+        protocols: response.data.protocols || [['1inch Aggregated']],
+        fromTokenAmount: amountInWei,
+        toTokenAmount: response.data.toAmount || response.data.toTokenAmount || '0',
+      };
     });
 
-    return {
-      toAmount: response.data.toAmount || response.data.toTokenAmount || '0',
-      estimatedGas: response.data.estimatedGas || response.data.gas || '150000',
-      protocols: response.data.protocols || [['1inch Aggregated']],
-      fromTokenAmount: amountInWei,
-      toTokenAmount: response.data.toAmount || response.data.toTokenAmount || '0',
-    };
-
   } catch (error) {
     console.error('1inch API error:', error);
 
@@ -164,52 +337,3 @@ export async function getOneInchQuote(
     throw new Error(`Failed to get 1inch quote: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
-
-// Helper function to calculate slippage
-function calculateSlippage(
-  amountIn: number,
-  amountOut: number,
-  tokenInSymbol: string,
-  tokenOutSymbol: string
-): number {
-  // This is a simplified slippage calculation
-  // In reality, you'd need to compare against the expected rate
-  // For now, we'll estimate based on typical DEX behavior
-
-  if (amountIn === 0 || amountOut === 0) return 0;
-
-  // Rough estimation - would need real price data for accuracy
-  const estimatedSlippage = Math.random() * 2; // 0-2% random for now
-  return Math.round(estimatedSlippage * 100) / 100;
-}
-
-// Get current token price from CoinGecko (free API)
-export async function getTokenPrice(tokenSymbol: string): Promise<number> {
-  try {
-    const response = await axios.get(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${tokenSymbol.toLowerCase()}&vs_currencies=usd`,
-      { timeout: 5000 }
-    );
-
-    return response.data[tokenSymbol.toLowerCase()]?.usd || 0;
-  } catch (error) {
-    console.error(`Error fetching price for ${tokenSymbol}:`, error);
-    return 0;
-  }
-}
-
-// Get historical token price for a specific date
-export async function getHistoricalTokenPrice(tokenSymbol: string, date: string): Promise<number> {
-  try {
-    const formattedDate = new Date(date).toISOString().split('T')[0];
-    const response = await axios.get(
-      `https://api.coingecko.com/api/v3/coins/${tokenSymbol.toLowerCase()}/history?date=${formattedDate}`,
-      { timeout: 5000 }
-    );
-
-    return response.data.market_data?.current_price?.usd || 0;
-  } catch (error) {
-    console.error(`Error fetching historical price for ${tokenSymbol}:`, error);
-    return 0;
-  }
-}
\ No newline at end of file
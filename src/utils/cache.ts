@@ -0,0 +1,181 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { CacheNamespace, CacheNamespaceStats } from '../types/index.js';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['swaps', 'quotes', 'prices'];
+
+// Time-to-live in seconds, or 'immutable' for finalized data that never changes
+export type CacheTtl = number | 'immutable';
+
+const DEFAULT_TTLS: Record<CacheNamespace, number> = {
+  swaps: 300,
+  quotes: 60,
+  prices: 300,
+};
+
+interface CacheEntry<T> {
+  key: string;
+  createdAt: string;
+  expiresAt: string | null;
+  value: T;
+}
+
+// Concurrent requests for the same key share a single in-flight load
+const inFlight = new Map<string, Promise<unknown>>();
+
+export function getCacheDir(): string {
+  return process.env.CACHE_DIR || join(homedir(), '.defi-analyzer', 'cache');
+}
+
+function isCacheEnabled(): boolean {
+  return process.env.CACHE_ENABLED !== 'false';
+}
+
+// Configured TTL for a namespace, e.g. CACHE_TTL_QUOTES=120
+export function getCacheTtl(namespace: CacheNamespace): number {
+  const configured = parseInt(process.env[`CACHE_TTL_${namespace.toUpperCase()}`] || '');
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TTLS[namespace];
+}
+
+function entryPath(namespace: CacheNamespace, key: string): string {
+  const hash = createHash('sha256').update(key).digest('hex');
+  return join(getCacheDir(), namespace, `${hash}.json`);
+}
+
+function isExpired(entry: CacheEntry<unknown>): boolean {
+  return entry.expiresAt !== null && new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+async function readEntry<T>(path: string): Promise<CacheEntry<T> | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as CacheEntry<T>;
+  } catch {
+    return null;
+  }
+}
+
+// Return the cached value for keyParts, or load, store and return it.
+// Failed loads are never cached.
+export async function withCache<T>(
+  namespace: CacheNamespace,
+  keyParts: unknown[],
+  ttl: CacheTtl,
+  load: () => Promise<T>
+): Promise<T> {
+  if (!isCacheEnabled()) {
+    return load();
+  }
+
+  const key = JSON.stringify(keyParts);
+  const path = entryPath(namespace, key);
+  const inFlightKey = `${namespace}:${key}`;
+
+  const pending = inFlight.get(inFlightKey);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const request = (async () => {
+    const cached = await readEntry<T>(path);
+    if (cached && cached.key === key && !isExpired(cached)) {
+      return cached.value;
+    }
+
+    const value = await load();
+
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      key,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: ttl === 'immutable' ? null : new Date(now + ttl * 1000).toISOString(),
+      value,
+    };
+
+    try {
+      await mkdir(join(getCacheDir(), namespace), { recursive: true });
+      await writeFile(path, JSON.stringify(entry));
+    } catch (error) {
+      console.error(`Error writing ${namespace} cache entry:`, error);
+    }
+
+    return value;
+  })();
+
+  inFlight.set(inFlightKey, request);
+  try {
+    return await request;
+  } finally {
+    inFlight.delete(inFlightKey);
+  }
+}
+
+export async function getCacheStats(namespaces: CacheNamespace[] = CACHE_NAMESPACES): Promise<CacheNamespaceStats[]> {
+  const stats: CacheNamespaceStats[] = [];
+
+  for (const namespace of namespaces) {
+    const directory = join(getCacheDir(), namespace);
+    const namespaceStats: CacheNamespaceStats = {
+      namespace,
+      entries: 0,
+      expiredEntries: 0,
+      immutableEntries: 0,
+      sizeBytes: 0,
+      ttlSeconds: getCacheTtl(namespace),
+    };
+
+    let files: string[] = [];
+    try {
+      files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      // Namespace has never been written to
+    }
+
+    for (const file of files) {
+      const path = join(directory, file);
+      const entry = await readEntry(path);
+      if (!entry) continue;
+
+      namespaceStats.entries++;
+      namespaceStats.sizeBytes += (await stat(path)).size;
+      if (entry.expiresAt === null) namespaceStats.immutableEntries++;
+      if (isExpired(entry)) namespaceStats.expiredEntries++;
+    }
+
+    stats.push(namespaceStats);
+  }
+
+  return stats;
+}
+
+// Remove cache entries; with expiredOnly, keep anything still valid
+export async function clearCache(
+  namespaces: CacheNamespace[] = CACHE_NAMESPACES,
+  expiredOnly: boolean = false
+): Promise<number> {
+  let removed = 0;
+
+  for (const namespace of namespaces) {
+    const directory = join(getCacheDir(), namespace);
+
+    let files: string[] = [];
+    try {
+      files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      const path = join(directory, file);
+      if (expiredOnly) {
+        const entry = await readEntry(path);
+        if (entry && !isExpired(entry)) continue;
+      }
+      await rm(path, { force: true });
+      removed++;
+    }
+  }
+
+  return removed;
+}
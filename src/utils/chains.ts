@@ -0,0 +1,118 @@
+import type { ChainConfig } from '../types/index.js';
+
+export const DEFAULT_CHAIN_ID = 1;
+
+// Supported chains with their Dune table names, RPC endpoint variable, native gas token, price API
+// identifiers, the Uniswap contracts used to simulate alternative routes and read TWAPs, and the
+// average block time used to turn hours into block ranges
+export const CHAINS: Record<number, ChainConfig> = {
+  1: {
+    chainId: 1,
+    name: 'Ethereum',
+    duneBlockchain: 'ethereum',
+    rpcUrlEnv: 'ETHEREUM_RPC_URL',
+    nativeSymbol: 'ETH',
+    nativeCoingeckoId: 'ethereum',
+    coingeckoPlatform: 'ethereum',
+    defillamaChain: 'ethereum',
+    wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    uniswapV2Router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    uniswapV3Quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    blockTimeSeconds: 12,
+  },
+  10: {
+    chainId: 10,
+    name: 'Optimism',
+    duneBlockchain: 'optimism',
+    rpcUrlEnv: 'OPTIMISM_RPC_URL',
+    nativeSymbol: 'ETH',
+    nativeCoingeckoId: 'ethereum',
+    coingeckoPlatform: 'optimistic-ethereum',
+    defillamaChain: 'optimism',
+    wrappedNativeAddress: '0x4200000000000000000000000000000000000006',
+    uniswapV2Router: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2',
+    uniswapV3Quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    blockTimeSeconds: 2,
+  },
+  137: {
+    chainId: 137,
+    name: 'Polygon',
+    duneBlockchain: 'polygon',
+    rpcUrlEnv: 'POLYGON_RPC_URL',
+    nativeSymbol: 'POL',
+    nativeCoingeckoId: 'polygon-ecosystem-token',
+    coingeckoPlatform: 'polygon-pos',
+    defillamaChain: 'polygon',
+    wrappedNativeAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+    uniswapV2Router: '0xedf6066a2b290C185783862C7F4776A2C8077AD1',
+    uniswapV3Quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    blockTimeSeconds: 2,
+  },
+  8453: {
+    chainId: 8453,
+    name: 'Base',
+    duneBlockchain: 'base',
+    rpcUrlEnv: 'BASE_RPC_URL',
+    nativeSymbol: 'ETH',
+    nativeCoingeckoId: 'ethereum',
+    coingeckoPlatform: 'base',
+    defillamaChain: 'base',
+    wrappedNativeAddress: '0x4200000000000000000000000000000000000006',
+    uniswapV2Router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24',
+    uniswapV3Quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+    uniswapV3Factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+    blockTimeSeconds: 2,
+  },
+  42161: {
+    chainId: 42161,
+    name: 'Arbitrum',
+    duneBlockchain: 'arbitrum',
+    rpcUrlEnv: 'ARBITRUM_RPC_URL',
+    nativeSymbol: 'ETH',
+    nativeCoingeckoId: 'ethereum',
+    coingeckoPlatform: 'arbitrum-one',
+    defillamaChain: 'arbitrum',
+    wrappedNativeAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+    uniswapV2Router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24',
+    uniswapV3Quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    uniswapV3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    blockTimeSeconds: 0.25,
+  },
+};
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(CHAINS).map(Number);
+
+// Look up a chain's configuration, failing loudly for unsupported chains
+export function getChain(chainId: number): ChainConfig {
+  const chain = CHAINS[chainId];
+  if (!chain) {
+    throw new Error(`Unsupported chainId ${chainId}. Supported chains: ${SUPPORTED_CHAIN_IDS.join(', ')}`);
+  }
+  return chain;
+}
+
+// Normalize a chainId argument (single id, list of ids or nothing) into a list of supported chain ids
+export function parseChainIds(input: unknown): number[] {
+  if (input === undefined || input === null) {
+    return [DEFAULT_CHAIN_ID];
+  }
+
+  const rawIds = Array.isArray(input) ? input : [input];
+  const chainIds = rawIds.map(id => {
+    const chainId = typeof id === 'string' ? parseInt(id, 10) : id;
+    if (typeof chainId !== 'number' || !Number.isInteger(chainId)) {
+      throw new Error(`Invalid chainId: ${String(id)}`);
+    }
+    getChain(chainId);
+    return chainId;
+  });
+
+  if (chainIds.length === 0) {
+    return [DEFAULT_CHAIN_ID];
+  }
+
+  return Array.from(new Set(chainIds));
+}
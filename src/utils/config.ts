@@ -0,0 +1,138 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+
+const DEFAULT_CONFIG_FILE = 'defi-analyzer.config.json';
+
+export const DEFAULT_SCORING_PROFILE = 'default';
+
+// A penalty grows linearly from 0 at `threshold` to the full `weight` at `saturation` (in the factor's unit)
+const penaltyFactorSchema = z.object({
+  weight: z.number().min(0),
+  threshold: z.number().min(0).default(0),
+  saturation: z.number().positive(),
+}).strict();
+
+const saturationAboveThreshold = [
+  (factor: { threshold: number; saturation: number }) => factor.saturation > factor.threshold,
+  { message: 'saturation must be greater than threshold' },
+] as const;
+
+const scoringProfileSchema = z.object({
+  description: z.string().optional(),
+  baseScore: z.number().min(0).max(100).default(100),
+  factors: z.object({
+    // Share of gas spend (%) the comparison route would have saved
+    gasEfficiency: penaltyFactorSchema.refine(...saturationAboveThreshold),
+    // Average realized slippage versus the market at block time (bps)
+    slippage: penaltyFactorSchema.refine(...saturationAboveThreshold),
+    // Share of swaps (%) on venues whose name contains one of `venues`
+    outdatedVenues: penaltyFactorSchema
+      .extend({ venues: z.array(z.string().min(1)).min(1) })
+      .refine(...saturationAboveThreshold),
+    // Share of compared swaps (%) whose route used more gas than the comparison route
+    suboptimalRoutes: penaltyFactorSchema.refine(...saturationAboveThreshold),
+    // Share of MEV-inspected swaps (%) that were sandwiched
+    mevExposure: penaltyFactorSchema.refine(...saturationAboveThreshold),
+    // Bonus for trading on at most `maxVenues` venues over at least `minSwaps` swaps
+    venueFocus: z.object({
+      weight: z.number().min(0),
+      maxVenues: z.number().int().min(1),
+      minSwaps: z.number().int().min(1),
+    }).strict(),
+  }).partial().strict(),
+}).strict();
+
+// The built-in profile reproduces the original hard-coded score
+const BUILT_IN_SCORING_PROFILES: Record<string, z.input<typeof scoringProfileSchema>> = {
+  [DEFAULT_SCORING_PROFILE]: {
+    description: 'Gas efficiency, slippage and venue choice',
+    factors: {
+      gasEfficiency: { weight: 50, saturation: 100 },
+      slippage: { weight: 30, saturation: 300 },
+      outdatedVenues: { weight: 20, saturation: 100, venues: ['V1', 'SushiSwap'] },
+      venueFocus: { weight: 5, maxVenues: 3, minSwaps: 6 },
+    },
+  },
+};
+
+const configSchema = z.object({
+  // Named groups of wallets, e.g. { "desk": ["0x...", "treasury.eth"] }
+  walletGroups: z.record(z.array(z.string()).min(1)).default({}),
+  // Efficiency scoring profiles; `profiles` may override the built-in "default" profile
+  scoring: z.object({
+    defaultProfile: z.string().min(1).default(DEFAULT_SCORING_PROFILE),
+    profiles: z.record(scoringProfileSchema).default({}),
+  }).strict().default({}),
+  // Recommendation rules to leave out, and message templates replacing a rule's built-in text
+  recommendations: z.object({
+    disabledRules: z.array(z.string().min(1)).default([]),
+    templates: z.record(z.string().min(1)).default({}),
+  }).strict().default({}),
+  // How often watched wallets are polled, and the default alert thresholds for new watches
+  watch: z.object({
+    pollIntervalSeconds: z.number().int().min(30).default(300),
+    minLossUSD: z.number().min(0).default(25),
+    maxSlippageBps: z.number().min(0).default(100),
+  }).strict().default({}),
+}).passthrough();
+
+export type AnalyzerConfig = z.infer<typeof configSchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+
+let loadedConfig: AnalyzerConfig | undefined;
+
+export function getConfigPath(): string {
+  return resolve(process.env.DEFI_ANALYZER_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+// Load the JSON config file once; a missing default file simply means an empty config
+export function getConfig(): AnalyzerConfig {
+  if (loadedConfig) return loadedConfig;
+
+  const path = getConfigPath();
+  if (!existsSync(path)) {
+    if (process.env.DEFI_ANALYZER_CONFIG) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+    loadedConfig = configSchema.parse({});
+    return loadedConfig;
+  }
+
+  const result = configSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid config file ${path}: ${issues}`);
+  }
+
+  loadedConfig = result.data;
+  return loadedConfig;
+}
+
+export function getWalletGroup(name: string): string[] {
+  const groups = getConfig().walletGroups;
+  const group = groups[name];
+  if (!group) {
+    const known = Object.keys(groups);
+    throw new Error(`Unknown wallet group "${name}". ${known.length > 0 ? `Configured groups: ${known.join(', ')}` : `No wallet groups are configured in ${getConfigPath()}`}`);
+  }
+  return group;
+}
+
+export function getScoringProfileNames(): string[] {
+  return Array.from(new Set([...Object.keys(BUILT_IN_SCORING_PROFILES), ...Object.keys(getConfig().scoring.profiles)]));
+}
+
+// Resolve a scoring profile by name, falling back to the configured default profile
+export function getScoringProfile(name?: string): { name: string; profile: ScoringProfile } {
+  const { defaultProfile, profiles } = getConfig().scoring;
+  const profileName = name ?? defaultProfile;
+
+  if (profiles[profileName]) {
+    return { name: profileName, profile: profiles[profileName] };
+  }
+  if (BUILT_IN_SCORING_PROFILES[profileName]) {
+    return { name: profileName, profile: scoringProfileSchema.parse(BUILT_IN_SCORING_PROFILES[profileName]) };
+  }
+  throw new Error(`Unknown scoring profile "${profileName}". Available profiles: ${getScoringProfileNames().join(', ')}`);
+}
@@ -0,0 +1,159 @@
+import { getPrice } from '../oracles/index.js';
+import { getChain } from './chains.js';
+import { decodeUint256, encodeAddress, encodeCall, encodeUint256, toWords } from './abi.js';
+import { getRpcUrl, rpcRequest } from './rpc.js';
+import { isNativeToken, fromBaseUnits } from './tokens.js';
+import type { Counterfactual, ExecutionQuality, OneInchQuote, SwapTransaction } from '../types/index.js';
+
+// Uniswap V2 Router getAmountsOut(uint256,address[]) and V3 QuoterV2 quoteExactInputSingle((address,address,uint256,uint24,uint160))
+const GET_AMOUNTS_OUT_SELECTOR = '0xd06ca61f';
+const QUOTE_EXACT_INPUT_SINGLE_SELECTOR = '0xc6a5026a';
+
+const V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+interface SimulatedRoute {
+  amountOut: bigint;
+  route: string;
+}
+
+let forkChainId: Promise<number | null> | undefined;
+
+// SIMULATION_RPC_URL points at a local fork (e.g. `anvil --fork-url <archive node>`); it is only
+// used for the chain it forks. Otherwise the chain's own endpoint is used, which needs archive state.
+async function getSimulationEndpoint(chainId: number): Promise<{ url: string; provider: string } | null> {
+  const simulationUrl = process.env.SIMULATION_RPC_URL;
+  if (simulationUrl) {
+    if (!forkChainId) {
+      forkChainId = rpcRequest<string>(simulationUrl, 'simulation', 'eth_chainId')
+        .then(result => parseInt(result, 16))
+        .catch(error => {
+          console.error('Simulation RPC unavailable:', error);
+          return null;
+        });
+    }
+    if (await forkChainId === chainId) {
+      return { url: simulationUrl, provider: 'simulation' };
+    }
+  }
+
+  const rpcUrl = getRpcUrl(chainId);
+  return rpcUrl ? { url: rpcUrl, provider: `rpc:${chainId}` } : null;
+}
+
+function encodeGetAmountsOut(amountIn: bigint, path: string[]): string {
+  // Static amountIn, then the dynamic path: offset, length and one word per address
+  return GET_AMOUNTS_OUT_SELECTOR + encodeUint256(amountIn) + encodeUint256(64) + encodeUint256(path.length) + path.map(encodeAddress).join('');
+}
+
+// Best output over direct Uniswap V3 pools (every fee tier) and V2 paths, evaluated against the
+// state at the end of the block before the swap
+async function simulateRoutes(
+  endpoint: { url: string; provider: string },
+  tx: SwapTransaction,
+  amountIn: bigint
+): Promise<SimulatedRoute | null> {
+  const chain = getChain(tx.chain_id);
+  const tokenIn = isNativeToken(tx.from_token_address) ? chain.wrappedNativeAddress : tx.from_token_address;
+  const tokenOut = isNativeToken(tx.to_token_address) ? chain.wrappedNativeAddress : tx.to_token_address;
+  const blockTag = `0x${(tx.block_number! - 1).toString(16)}`;
+  const call = (to: string, data: string) => rpcRequest<string>(endpoint.url, endpoint.provider, 'eth_call', [{ to, data }, blockTag]);
+
+  const candidates: Array<Promise<SimulatedRoute>> = V3_FEE_TIERS.map(async fee => {
+    const result = await call(chain.uniswapV3Quoter, encodeCall(QUOTE_EXACT_INPUT_SINGLE_SELECTOR, [tokenIn, tokenOut, amountIn, fee, 0n]));
+    return { amountOut: decodeUint256(toWords(result)[0]), route: `Uniswap V3 (${fee / 10000}%)` };
+  });
+
+  const paths = [[tokenIn, tokenOut]];
+  const wrapped = chain.wrappedNativeAddress.toLowerCase();
+  if (tokenIn.toLowerCase() !== wrapped && tokenOut.toLowerCase() !== wrapped) {
+    paths.push([tokenIn, chain.wrappedNativeAddress, tokenOut]);
+  }
+  for (const path of paths) {
+    candidates.push((async () => {
+      const words = toWords(await call(chain.uniswapV2Router, encodeGetAmountsOut(amountIn, path)));
+      // uint256[] amounts: offset, length, then one amount per hop
+      return { amountOut: decodeUint256(words[words.length - 1]), route: path.length > 2 ? `Uniswap V2 via ${chain.nativeSymbol}` : 'Uniswap V2' };
+    })());
+  }
+
+  // Pools that did not exist at the block revert; they simply drop out
+  const routes = (await Promise.allSettled(candidates))
+    .filter((result): result is PromiseFulfilledResult<SimulatedRoute> => result.status === 'fulfilled' && result.value.amountOut > 0n)
+    .map(result => result.value);
+  if (routes.length === 0) return null;
+
+  return routes.reduce((best, route) => route.amountOut > best.amountOut ? route : best);
+}
+
+// Evaluate what the best alternative would have returned at the time of the swap:
+// 1. simulate Uniswap routes with eth_call at the swap's block (high confidence),
+// 2. otherwise take the aggregator quote's edge over today's market rate and apply it to the
+//    market rate at block_time, so price moves since the swap cancel out (medium confidence);
+//    without a quote, the market rate at block_time itself,
+// 3. otherwise fall back to the raw current-time quote (low confidence).
+// Returns null when there is no quote and neither of the first two methods applies.
+export async function evaluateCounterfactual(
+  tx: SwapTransaction,
+  amountIn: string,
+  toDecimals: number,
+  quote: OneInchQuote | null,
+  execution: ExecutionQuality
+): Promise<Counterfactual | null> {
+
+  if (tx.block_number !== undefined && tx.block_number > 0) {
+    try {
+      const endpoint = await getSimulationEndpoint(tx.chain_id);
+      const simulated = endpoint ? await simulateRoutes(endpoint, tx, BigInt(amountIn)) : null;
+      if (simulated) {
+        return {
+          method: 'fork_simulation',
+          confidence: 'high',
+          amountOut: fromBaseUnits(simulated.amountOut, toDecimals),
+          route: simulated.route,
+          blockNumber: tx.block_number - 1,
+        };
+      }
+    } catch (error) {
+      console.error(`Error simulating routes for ${tx.hash}:`, error);
+    }
+  }
+
+  if (execution.referenceRate !== null && tx.from_amount > 0 && !quote) {
+    return {
+      method: 'historical_price',
+      confidence: 'medium',
+      amountOut: tx.from_amount * execution.referenceRate,
+      route: 'Market rate',
+      note: 'No aggregator quote was available; the market rate at the time of the swap',
+    };
+  }
+
+  if (!quote) return null;
+
+  const quoteAmountOut = fromBaseUnits(quote.toAmount, toDecimals);
+  const quoteRoute = quote.protocols[0]?.[0] || '1inch Aggregated';
+
+  if (execution.referenceRate !== null && tx.from_amount > 0) {
+    const [fromPrice, toPrice] = await Promise.all([
+      getPrice({ chainId: tx.chain_id, address: tx.from_token_address, symbol: tx.from_token }),
+      getPrice({ chainId: tx.chain_id, address: tx.to_token_address, symbol: tx.to_token }),
+    ]);
+    if (fromPrice && toPrice) {
+      const quoteEdge = (quoteAmountOut / tx.from_amount) / (fromPrice.priceUSD / toPrice.priceUSD);
+      return {
+        method: 'historical_price',
+        confidence: 'medium',
+        amountOut: tx.from_amount * execution.referenceRate * quoteEdge,
+        route: quoteRoute,
+      };
+    }
+  }
+
+  return {
+    method: 'current_quote',
+    confidence: 'low',
+    amountOut: quoteAmountOut,
+    route: quoteRoute,
+    note: 'Current-time quote; the difference includes price movement since the swap',
+  };
+}
@@ -0,0 +1,90 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { keccak256Hex, toChecksumAddress } from './address.js';
+import { decodeAbiString, decodeAddress } from './abi.js';
+import { getRpcUrl, rpcRequest } from './rpc.js';
+
+// ENS registry (same address on mainnet and testnets)
+const ENS_REGISTRY = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+const RESOLVER_SELECTOR = '0x0178b8bf';
+const ADDR_SELECTOR = '0x3b3b57de';
+const NAME_SELECTOR = '0x691f3431';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const forwardLookups = new Map<string, Promise<string | null>>();
+const reverseLookups = new Map<string, Promise<string | null>>();
+
+// ENS_RPC_URL wins; otherwise ENS is resolved through the Ethereum mainnet endpoint
+function getEnsRpcUrl(): string {
+  const rpcUrl = process.env.ENS_RPC_URL || getRpcUrl(1);
+  if (!rpcUrl) {
+    throw new Error('ENS_RPC_URL or ETHEREUM_RPC_URL is required to resolve ENS names');
+  }
+  return rpcUrl;
+}
+
+// EIP-137 namehash. Names are lowercased; full ENSIP-15 normalization is not applied.
+export function namehash(name: string): string {
+  let node = '00'.repeat(32);
+  if (!name) return `0x${node}`;
+
+  const labels = name.toLowerCase().split('.').reverse();
+  for (const label of labels) {
+    const labelHash = keccak256Hex(label);
+    node = keccak256Hex(hexToBytes(node + labelHash));
+  }
+  return `0x${node}`;
+}
+
+async function ensCall(to: string, data: string): Promise<string> {
+  return rpcRequest<string>(getEnsRpcUrl(), 'rpc:ens', 'eth_call', [{ to, data }, 'latest']);
+}
+
+async function getResolver(node: string): Promise<string | null> {
+  const result = await ensCall(ENS_REGISTRY, `${RESOLVER_SELECTOR}${node.slice(2)}`);
+  const resolver = decodeAddress(result.slice(0, 66));
+  return resolver === ZERO_ADDRESS ? null : resolver;
+}
+
+// Resolve an ENS name (e.g. vitalik.eth) to a checksummed address, or null if it has no address record
+export function resolveEnsName(name: string): Promise<string | null> {
+  const key = name.toLowerCase();
+  if (!forwardLookups.has(key)) {
+    forwardLookups.set(key, (async () => {
+      const node = namehash(key);
+      const resolver = await getResolver(node);
+      if (!resolver) return null;
+
+      const result = await ensCall(resolver, `${ADDR_SELECTOR}${node.slice(2)}`);
+      const address = decodeAddress(result.slice(0, 66));
+      return address === ZERO_ADDRESS ? null : toChecksumAddress(address);
+    })());
+  }
+
+  const lookup = forwardLookups.get(key)!;
+  lookup.catch(() => forwardLookups.delete(key));
+  return lookup;
+}
+
+// Reverse-resolve an address to its primary ENS name, verified against the forward record
+export function lookupEnsName(address: string): Promise<string | null> {
+  const key = address.toLowerCase();
+  if (!reverseLookups.has(key)) {
+    reverseLookups.set(key, (async () => {
+      const node = namehash(`${key.slice(2)}.addr.reverse`);
+      const resolver = await getResolver(node);
+      if (!resolver) return null;
+
+      const name = decodeAbiString(await ensCall(resolver, `${NAME_SELECTOR}${node.slice(2)}`));
+      if (!name) return null;
+
+      const forward = await resolveEnsName(name);
+      return forward?.toLowerCase() === key ? name : null;
+    })());
+  }
+
+  const lookup = reverseLookups.get(key)!;
+  lookup.catch(() => reverseLookups.delete(key));
+  return lookup;
+}
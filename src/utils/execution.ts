@@ -0,0 +1,43 @@
+import { getPrice } from '../oracles/index.js';
+import type { SwapTransaction, ExecutionQuality } from '../types/index.js';
+
+// Measure a swap's realized rate against the market reference rate at block_time.
+// Slippage is reported in basis points: positive means the swap got less than the reference.
+export async function measureExecutionQuality(tx: SwapTransaction): Promise<ExecutionQuality> {
+  const realizedRate = tx.from_amount > 0 ? tx.to_amount / tx.from_amount : 0;
+
+  const unknown = (reason: string): ExecutionQuality => ({
+    status: 'unknown',
+    referenceSource: null,
+    referenceRate: null,
+    realizedRate,
+    slippageBps: null,
+    reason,
+  });
+
+  if (realizedRate <= 0) {
+    return unknown('Swap has no input or output amount');
+  }
+
+  const [fromPrice, toPrice] = await Promise.all([
+    getPrice({ chainId: tx.chain_id, address: tx.from_token_address, symbol: tx.from_token, timestamp: tx.timestamp, blockNumber: tx.block_number }),
+    getPrice({ chainId: tx.chain_id, address: tx.to_token_address, symbol: tx.to_token, timestamp: tx.timestamp, blockNumber: tx.block_number }),
+  ]);
+
+  if (!fromPrice || !toPrice) {
+    return unknown(`No historical price available for ${!fromPrice ? tx.from_token : tx.to_token} at ${tx.timestamp}`);
+  }
+
+  // Units of to_token one unit of from_token was worth at the time of the swap
+  const referenceRate = fromPrice.priceUSD / toPrice.priceUSD;
+  const slippageBps = (1 - realizedRate / referenceRate) * 10000;
+
+  return {
+    status: 'measured',
+    referenceSource: 'historical_price',
+    referencePrices: { from: fromPrice, to: toPrice },
+    referenceRate,
+    realizedRate,
+    slippageBps: Math.round(slippageBps * 100) / 100,
+  };
+}
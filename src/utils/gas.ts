@@ -0,0 +1,130 @@
+import { getNativePrice } from '../oracles/index.js';
+import { getChain } from './chains.js';
+import { rpcCall } from './rpc.js';
+import { withCache } from './cache.js';
+import type { GasCost, GasCostSummary, NativeGasTotal, SwapTransaction } from '../types/index.js';
+
+const WEI_PER_NATIVE = 1e18;
+const WEI_PER_GWEI = 1e9;
+
+// Most providers cap eth_feeHistory at 1024 blocks per call
+export const FEE_HISTORY_MAX_BLOCKS = 1024;
+
+export function weiToNative(wei: number): number {
+  return wei / WEI_PER_NATIVE;
+}
+
+export function weiToGwei(wei: number): number {
+  return wei / WEI_PER_GWEI;
+}
+
+// Base fee per gas (wei) of up to FEE_HISTORY_MAX_BLOCKS consecutive blocks starting at `oldestBlock`.
+// Callers only ask for mined blocks, so the history never changes once fetched.
+export async function getBaseFees(chainId: number, oldestBlock: number, blockCount: number): Promise<number[]> {
+  const count = Math.min(blockCount, FEE_HISTORY_MAX_BLOCKS);
+  const newestBlock = oldestBlock + count - 1;
+
+  return withCache('swaps', ['fee-history', chainId, oldestBlock, count], 'immutable', async () => {
+    const history = await rpcCall<{ baseFeePerGas: string[] }>(
+      chainId,
+      'eth_feeHistory',
+      [`0x${count.toString(16)}`, `0x${newestBlock.toString(16)}`, []]
+    );
+    // baseFeePerGas ends with the base fee of the block after the newest one
+    return history.baseFeePerGas.slice(0, count).map(fee => parseInt(fee, 16));
+  });
+}
+
+// The fields gas is priced from; swaps and overhead transactions both carry them
+type GasPayingTransaction = Pick<SwapTransaction, 'chain_id' | 'block_number' | 'timestamp' | 'gas_used' | 'gas_price' | 'base_fee_per_gas' | 'gas_cost'>;
+
+// Price the gas a transaction paid at the native token's price on the day of the block
+export async function calculateGasCost(tx: GasPayingTransaction): Promise<GasCost> {
+  const chain = getChain(tx.chain_id);
+  const costNative = weiToNative(tx.gas_used * tx.gas_price);
+
+  // effectiveGasPrice = base fee + priority tip, so the tip is whatever exceeds the base fee
+  const hasFeeSplit = tx.base_fee_per_gas !== undefined && tx.gas_price >= tx.base_fee_per_gas;
+  const baseFeeNative = hasFeeSplit ? weiToNative(tx.gas_used * tx.base_fee_per_gas!) : null;
+  const priorityFeeNative = hasFeeSplit ? weiToNative(tx.gas_used * (tx.gas_price - tx.base_fee_per_gas!)) : null;
+
+  const price = await getNativePrice(tx.chain_id, tx.timestamp, tx.block_number);
+  const nativePriceUSD = price?.priceUSD ?? null;
+
+  return {
+    nativeToken: chain.nativeSymbol,
+    costNative,
+    costUSD: nativePriceUSD !== null ? costNative * nativePriceUSD : null,
+    nativePriceUSD,
+    gasPriceGwei: weiToGwei(tx.gas_price),
+    baseFeeNative,
+    priorityFeeNative,
+  };
+}
+
+// Compute and attach gas_cost to every transaction that doesn't have one yet
+export async function attachGasCosts<T extends GasPayingTransaction>(transactions: T[]): Promise<T[]> {
+  for (const tx of transactions) {
+    if (!tx.gas_cost) {
+      tx.gas_cost = await calculateGasCost(tx);
+    }
+  }
+  return transactions;
+}
+
+// Aggregate gas costs: USD across all chains, native amounts per native token (ETH on L2s adds up with mainnet ETH)
+export function summarizeGasCosts(costs: GasCost[]): GasCostSummary {
+  const totals = new Map<string, NativeGasTotal>();
+  let totalCostUSD = 0;
+  let baseFeeUSD = 0;
+  let priorityFeeUSD = 0;
+  let feeSplitTransactions = 0;
+  let unpricedTransactions = 0;
+
+  for (const cost of costs) {
+    const total = totals.get(cost.nativeToken) ?? {
+      nativeToken: cost.nativeToken,
+      transactions: 0,
+      totalCost: 0,
+      baseFee: null,
+      priorityFee: null,
+    };
+    total.transactions++;
+    total.totalCost += cost.costNative;
+
+    if (cost.baseFeeNative !== null && cost.priorityFeeNative !== null) {
+      total.baseFee = (total.baseFee ?? 0) + cost.baseFeeNative;
+      total.priorityFee = (total.priorityFee ?? 0) + cost.priorityFeeNative;
+      feeSplitTransactions++;
+      if (cost.nativePriceUSD !== null) {
+        baseFeeUSD += cost.baseFeeNative * cost.nativePriceUSD;
+        priorityFeeUSD += cost.priorityFeeNative * cost.nativePriceUSD;
+      }
+    }
+
+    if (cost.costUSD !== null) {
+      totalCostUSD += cost.costUSD;
+    } else {
+      unpricedTransactions++;
+    }
+
+    totals.set(cost.nativeToken, total);
+  }
+
+  return {
+    totalCostUSD: Math.round(totalCostUSD * 100) / 100,
+    baseFeeUSD: feeSplitTransactions > 0 ? Math.round(baseFeeUSD * 100) / 100 : null,
+    priorityFeeUSD: feeSplitTransactions > 0 ? Math.round(priorityFeeUSD * 100) / 100 : null,
+    nativeTotals: Array.from(totals.values()),
+    feeSplitTransactions,
+    unpricedTransactions,
+  };
+}
+
+// e.g. "0.0123 ETH + 1.5 POL"
+export function formatNativeAmounts(amounts: { nativeToken: string; amount: number }[]): string {
+  return amounts
+    .filter(entry => entry.amount > 0)
+    .map(entry => `${entry.amount.toFixed(entry.amount >= 1 ? 4 : 6)} ${entry.nativeToken}`)
+    .join(' + ');
+}
@@ -0,0 +1,189 @@
+import axios from 'axios';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export interface ProviderPolicy {
+  requestsPerSecond: number;
+  burst: number;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const DEFAULT_POLICY: ProviderPolicy = {
+  requestsPerSecond: 5,
+  burst: 5,
+  timeoutMs: 10000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+// Defaults tuned to each provider's public rate limits
+const PROVIDER_POLICIES: Record<string, Partial<ProviderPolicy>> = {
+  dune: { requestsPerSecond: 2, burst: 2, timeoutMs: 30000 },
+  oneinch: { requestsPerSecond: 1, burst: 1 },
+  zerox: { requestsPerSecond: 1, burst: 2 },
+  paraswap: { requestsPerSecond: 1, burst: 2 },
+  cow: { requestsPerSecond: 2, burst: 2 },
+  odos: { requestsPerSecond: 1, burst: 1 },
+  coingecko: { requestsPerSecond: 0.5, burst: 3, timeoutMs: 5000 },
+  defillama: { requestsPerSecond: 2, burst: 5, timeoutMs: 5000 },
+  rpc: { requestsPerSecond: 25, burst: 50, timeoutMs: 15000 },
+};
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  // Waiters are served in order so a burst of callers can't starve each other
+  take(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.ratePerSecond) * 1000);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+const circuits = new Map<string, CircuitState>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Resolve a provider's policy; `rpc:1` style keys share the `rpc` policy but get their own limiter.
+// Any field can be overridden from the environment, e.g. HTTP_ONEINCH_REQUESTS_PER_SECOND=2
+export function getProviderPolicy(provider: string): ProviderPolicy {
+  const baseName = provider.split(':')[0];
+  const policy: ProviderPolicy = { ...DEFAULT_POLICY, ...PROVIDER_POLICIES[baseName] };
+
+  for (const field of Object.keys(policy) as Array<keyof ProviderPolicy>) {
+    const envName = `HTTP_${baseName.toUpperCase()}_${field.replace(/[A-Z]/g, c => `_${c}`).toUpperCase()}`;
+    const override = parseFloat(process.env[envName] || '');
+    if (Number.isFinite(override) && override >= 0) {
+      policy[field] = override;
+    }
+  }
+
+  return policy;
+}
+
+function getBucket(provider: string, policy: ProviderPolicy): TokenBucket {
+  if (!buckets.has(provider)) {
+    buckets.set(provider, new TokenBucket(policy.requestsPerSecond, Math.max(1, policy.burst)));
+  }
+  return buckets.get(provider)!;
+}
+
+function getCircuit(provider: string): CircuitState {
+  if (!circuits.has(provider)) {
+    circuits.set(provider, { consecutiveFailures: 0, openUntil: 0 });
+  }
+  return circuits.get(provider)!;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  // Network errors and timeouts have no response
+  if (status === undefined) return true;
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(error: unknown): number | null {
+  if (!axios.isAxiosError(error)) return null;
+  const header = error.response?.headers?.['retry-after'];
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, policy: ProviderPolicy, error: unknown): number {
+  // Full jitter: a random delay up to the exponential ceiling
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  const retryAfter = parseRetryAfter(error);
+  return retryAfter !== null ? Math.max(retryAfter, jittered) : jittered;
+}
+
+// Send a request through the provider's rate limiter, retrying transient failures
+// and short-circuiting while the provider keeps failing.
+export async function httpRequest<T = any>(provider: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+  const policy = getProviderPolicy(provider);
+  const bucket = getBucket(provider, policy);
+  const circuit = getCircuit(provider);
+
+  if (circuit.openUntil > Date.now()) {
+    const retryIn = Math.ceil((circuit.openUntil - Date.now()) / 1000);
+    throw new Error(`${provider} is temporarily unavailable after repeated failures (retry in ${retryIn}s)`);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take();
+
+    try {
+      const response = await axios.request<T>({ timeout: policy.timeoutMs, ...config });
+      circuit.consecutiveFailures = 0;
+      return response;
+    } catch (error) {
+      if (!isRetryable(error)) {
+        throw error;
+      }
+
+      circuit.consecutiveFailures++;
+      if (circuit.consecutiveFailures >= policy.failureThreshold) {
+        circuit.openUntil = Date.now() + policy.cooldownMs;
+        console.error(`[HTTP] Circuit opened for ${provider} after ${circuit.consecutiveFailures} consecutive failures`);
+        throw error;
+      }
+
+      if (attempt >= policy.maxRetries) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, policy, error);
+      console.warn(`[HTTP] ${provider} request failed (attempt ${attempt + 1}/${policy.maxRetries + 1}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+export function httpGet<T = any>(provider: string, url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+  return httpRequest<T>(provider, { ...config, method: 'GET', url });
+}
+
+export function httpPost<T = any>(provider: string, url: string, data?: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+  return httpRequest<T>(provider, { ...config, method: 'POST', url, data });
+}
@@ -0,0 +1,131 @@
+import type { SwapHop, SwapTransaction } from '../types/index.js';
+
+function tokenKey(token: string, address: string): string {
+  return (address || token).toLowerCase();
+}
+
+function fromKey(row: SwapTransaction): string {
+  return tokenKey(row.from_token, row.from_token_address);
+}
+
+function toKey(row: SwapTransaction): string {
+  return tokenKey(row.to_token, row.to_token_address);
+}
+
+// Split a transaction's rows into independent trades: rows are connected when one row's output
+// token is another row's input token, or when they sell or buy the same token (a route split over
+// several pools). A batch of unrelated swaps stays separate.
+function connectedTrades(rows: SwapTransaction[]): SwapTransaction[][] {
+  const parent = rows.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  for (const [i, a] of rows.entries()) {
+    for (const [j, b] of rows.entries()) {
+      if (i !== j && (toKey(a) === fromKey(b) || fromKey(a) === fromKey(b) || toKey(a) === toKey(b))) parent[find(i)] = find(j);
+    }
+  }
+
+  const trades = new Map<number, SwapTransaction[]>();
+  for (const [index, row] of rows.entries()) {
+    const root = find(index);
+    trades.set(root, [...(trades.get(root) ?? []), row]);
+  }
+  return Array.from(trades.values());
+}
+
+// Execution order: by log index when every row has one, otherwise by following tokens from hops
+// whose input no remaining hop produces
+function orderHops(rows: SwapTransaction[]): SwapTransaction[] {
+  if (rows.every(row => row.log_index !== undefined)) {
+    return [...rows].sort((a, b) => a.log_index! - b.log_index!);
+  }
+
+  const remaining = [...rows];
+  const ordered: SwapTransaction[] = [];
+  while (remaining.length > 0) {
+    const nextIndex = remaining.findIndex(row => !remaining.some(other => other !== row && toKey(other) === fromKey(row)));
+    ordered.push(...remaining.splice(Math.max(nextIndex, 0), 1));
+  }
+  return ordered;
+}
+
+function toHop(row: SwapTransaction): SwapHop {
+  return {
+    from_token: row.from_token,
+    to_token: row.to_token,
+    from_token_address: row.from_token_address,
+    to_token_address: row.to_token_address,
+    from_amount: row.from_amount,
+    to_amount: row.to_amount,
+    dex: row.dex,
+    usd_value: row.usd_value,
+    log_index: row.log_index,
+  };
+}
+
+// Merge the hops of one trade into a single swap from the token that only goes in to the token
+// that only comes out. Split routes add up: the input is every hop selling the input token and the
+// output every hop buying the output token. Cyclic trades (e.g. WETH -> X -> WETH) fall back to
+// the first hop's input and the last hop's output. Gas is paid once per transaction, not per hop.
+function mergeHops(rows: SwapTransaction[]): SwapTransaction {
+  const hops = orderHops(rows);
+  const first = hops[0];
+  const last = hops[hops.length - 1];
+
+  const sold = new Set(hops.map(fromKey));
+  const bought = new Set(hops.map(toKey));
+  const inputs = Array.from(sold).filter(token => !bought.has(token));
+  const outputs = Array.from(bought).filter(token => !sold.has(token));
+  const input = inputs.length === 1 ? inputs[0] : fromKey(first);
+  const output = outputs.length === 1 ? outputs[0] : toKey(last);
+
+  const entryHops = hops.filter(hop => fromKey(hop) === input);
+  const exitHops = hops.filter(hop => toKey(hop) === output);
+  const venues = Array.from(new Set(hops.map(hop => hop.dex)));
+
+  // Every hop carries roughly the trade's value, so only the hops selling the input token count
+  const entryValues = entryHops.map(hop => hop.usd_value).filter((value): value is number => value !== undefined);
+  const hopValues = hops.map(hop => hop.usd_value).filter((value): value is number => value !== undefined);
+  const usdValue = entryValues.length > 0
+    ? entryValues.reduce((sum, value) => sum + value, 0)
+    : hopValues.length > 0 ? Math.max(...hopValues) : undefined;
+
+  return {
+    ...first,
+    from_token: entryHops[0].from_token,
+    from_token_address: entryHops[0].from_token_address,
+    from_amount: entryHops.reduce((sum, hop) => sum + hop.from_amount, 0),
+    to_token: exitHops[0].to_token,
+    to_token_address: exitHops[0].to_token_address,
+    to_amount: exitHops.reduce((sum, hop) => sum + hop.to_amount, 0),
+    dex: venues.join(' + '),
+    usd_value: usdValue,
+    recipient: exitHops[exitHops.length - 1].recipient ?? first.recipient,
+    hops: hops.map(toHop),
+    venues,
+  };
+}
+
+// Identity of a logical swap for joining analyses back to it: several swaps can share a hash, and
+// the leg tells them apart
+export function swapKey(chainId: number, hash: string, leg?: number): string {
+  return `${chainId}:${hash.toLowerCase()}${leg !== undefined ? `:${leg}` : ''}`;
+}
+
+// Data sources report one row per hop (Dune's DEX trades table) or per pool swap (the RPC scan), so
+// a routed trade shows up as several rows sharing a hash. Merge them into logical swaps, keeping
+// the position of each transaction's first row; single-row transactions pass through unchanged.
+// Transactions that hold several independent trades number them with `leg`.
+export function normalizeSwaps(transactions: SwapTransaction[]): SwapTransaction[] {
+  const byTransaction = new Map<string, SwapTransaction[]>();
+  for (const tx of transactions) {
+    const key = swapKey(tx.chain_id, tx.hash);
+    byTransaction.set(key, [...(byTransaction.get(key) ?? []), tx]);
+  }
+
+  return Array.from(byTransaction.values()).flatMap(rows => {
+    if (rows.length === 1) return rows;
+    const trades = connectedTrades(rows).map(trade => (trade.length === 1 ? trade[0] : mergeHops(trade)));
+    return trades.length === 1 ? trades : trades.map((trade, leg) => ({ ...trade, leg }));
+  });
+}
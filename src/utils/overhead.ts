@@ -0,0 +1,80 @@
+import { checkAllowances } from './allowances.js';
+import { summarizeGasCosts } from './gas.js';
+import { getRpcUrl } from './rpc.js';
+import type { AllowanceCheck, GasOverheadAnalysis, OverheadKind, OverheadTransaction, SwapTransaction } from '../types/index.js';
+
+const APPROVAL_KINDS: OverheadKind[] = ['approval', 'permit2_approval', 'permit2_permit'];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function costUSD(transactions: OverheadTransaction[]): number {
+  return round(transactions.reduce((sum, tx) => sum + (tx.gas_cost?.costUSD ?? 0), 0));
+}
+
+// Check the allowances the wallet still grants on every chain with a JSON-RPC endpoint, for the
+// tokens it sold and the tokens it approved. Null when no chain can be checked.
+async function checkWalletAllowances(
+  walletAddress: string,
+  chainIds: number[],
+  swaps: SwapTransaction[],
+  overhead: OverheadTransaction[]
+): Promise<AllowanceCheck | null> {
+  const checkable = chainIds.filter(chainId => getRpcUrl(chainId));
+  if (checkable.length === 0) return null;
+
+  const checks = await Promise.all(checkable.map(async chainId => {
+    try {
+      return await checkAllowances(walletAddress, chainId, [
+        ...overhead
+          .filter(tx => tx.chain_id === chainId && tx.token_address && APPROVAL_KINDS.includes(tx.kind))
+          .map(tx => ({ tokenAddress: tx.token_address!, spender: tx.spender })),
+        ...swaps
+          .filter(tx => tx.chain_id === chainId)
+          .map(tx => ({ tokenAddress: tx.from_token_address })),
+      ]);
+    } catch (error) {
+      console.error(`Error checking allowances on chain ${chainId}:`, error);
+      return null;
+    }
+  }));
+
+  const completed = checks.filter((check): check is AllowanceCheck => check !== null);
+  return {
+    pairsChecked: completed.reduce((sum, check) => sum + check.pairsChecked, 0),
+    outstanding: completed.flatMap(check => check.outstanding),
+    unlimited: completed.reduce((sum, check) => sum + check.unlimited, 0),
+  };
+}
+
+// Gas the wallet spent beyond its swaps, and the router allowances it left open. Transactions that
+// share a hash with one of the swaps (e.g. a permit consumed by the swap) are already in the swap's gas.
+export async function analyzeGasOverhead(
+  walletAddress: string,
+  chainIds: number[],
+  swaps: SwapTransaction[],
+  overhead: { source: string | null; transactions: OverheadTransaction[] }
+): Promise<GasOverheadAnalysis> {
+  const swapHashes = new Set(swaps.map(tx => tx.hash.toLowerCase()));
+  const paid = overhead.transactions.filter(tx => tx.gas_used > 0 && !swapHashes.has(tx.hash.toLowerCase()));
+  const failed = paid.filter(tx => tx.kind === 'failed_swap');
+  const approvals = paid.filter(tx => APPROVAL_KINDS.includes(tx.kind));
+  const costs = summarizeGasCosts(paid.map(tx => tx.gas_cost!));
+  const count = (kind: OverheadKind) => overhead.transactions.filter(tx => tx.kind === kind).length;
+
+  return {
+    source: overhead.source,
+    failedSwaps: count('failed_swap'),
+    approvals: count('approval'),
+    permit2Approvals: count('permit2_approval'),
+    permit2Permits: count('permit2_permit'),
+    failedSwapGasUSD: costUSD(failed),
+    approvalGasUSD: costUSD(approvals),
+    totalCostUSD: costs.totalCostUSD,
+    nativeTotals: costs.nativeTotals,
+    unpricedTransactions: costs.unpricedTransactions,
+    transactions: overhead.transactions,
+    allowances: await checkWalletAllowances(walletAddress, chainIds, swaps, overhead.transactions),
+  };
+}
@@ -0,0 +1,37 @@
+import type { ReportTimeRange, SwapRange, SwapTransaction } from '../types/index.js';
+
+export function hasRange(range?: SwapRange): range is SwapRange {
+  return !!range && (range.from !== undefined || range.to !== undefined ||
+    range.fromBlock !== undefined || range.toBlock !== undefined);
+}
+
+// Block bounds only apply to transactions that carry a block number
+export function isInRange(tx: Pick<SwapTransaction, 'timestamp' | 'block_number'>, range?: SwapRange): boolean {
+  if (!hasRange(range)) return true;
+
+  const time = new Date(tx.timestamp).getTime();
+  if (range.from !== undefined && time < new Date(range.from).getTime()) return false;
+  if (range.to !== undefined && time > new Date(range.to).getTime()) return false;
+
+  if (tx.block_number !== undefined) {
+    if (range.fromBlock !== undefined && tx.block_number < range.fromBlock) return false;
+    if (range.toBlock !== undefined && tx.block_number > range.toBlock) return false;
+  }
+
+  return true;
+}
+
+// Report the requested window where given and fall back to the transactions that came back
+export function describeTimeRange(range: SwapRange | undefined, transactions: Pick<SwapTransaction, 'timestamp'>[]): ReportTimeRange {
+  const timestamps = transactions.map(tx => new Date(tx.timestamp).getTime());
+  const now = new Date().toISOString();
+  const earliest = timestamps.length > 0 ? new Date(Math.min(...timestamps)).toISOString() : now;
+  const latest = timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : now;
+
+  return {
+    from: range?.from ?? earliest,
+    to: range?.to ?? (range?.from !== undefined ? now : latest),
+    fromBlock: range?.fromBlock,
+    toBlock: range?.toBlock,
+  };
+}
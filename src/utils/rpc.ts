@@ -0,0 +1,49 @@
+import { getChain } from './chains.js';
+import { httpPost } from './http.js';
+
+// Resolve the JSON-RPC endpoint configured for a chain (e.g. ETHEREUM_RPC_URL)
+export function getRpcUrl(chainId: number): string | undefined {
+  return process.env[getChain(chainId).rpcUrlEnv];
+}
+
+let requestId = 0;
+
+// Perform a raw JSON-RPC call against an explicit endpoint; `provider` keys the rate limiter
+export async function rpcRequest<T = any>(
+  rpcUrl: string,
+  provider: string,
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  const response = await httpPost(
+    provider,
+    rpcUrl,
+    { jsonrpc: '2.0', id: ++requestId, method, params },
+    { headers: { 'Content-Type': 'application/json' } }
+  );
+
+  if (response.data.error) {
+    throw new Error(`RPC ${method} failed: ${response.data.error.message || 'Unknown error'}`);
+  }
+
+  return response.data.result as T;
+}
+
+// Perform a raw JSON-RPC call against the chain's configured endpoint
+export async function rpcCall<T = any>(chainId: number, method: string, params: unknown[] = []): Promise<T> {
+  const rpcUrl = getRpcUrl(chainId);
+  if (!rpcUrl) {
+    throw new Error(`${getChain(chainId).rpcUrlEnv} not found in environment variables`);
+  }
+
+  return rpcRequest<T>(rpcUrl, `rpc:${chainId}`, method, params);
+}
+
+export async function ethCall(
+  chainId: number,
+  to: string,
+  data: string,
+  blockTag: string = 'latest'
+): Promise<string> {
+  return rpcCall<string>(chainId, 'eth_call', [{ to, data }, blockTag]);
+}
@@ -0,0 +1,140 @@
+import type { ScoringProfile } from './config.js';
+import type { MevAnalysis, ScoreBreakdown, ScoreFactor, SwapComparison, SwapTransaction } from '../types/index.js';
+
+export interface ScoringInputs {
+  gasSavingsPotential: number;
+  totalGasSpent: number;
+  averageSlippageBps: number | null;
+  transactions: SwapTransaction[];
+  comparisons: SwapComparison[];
+  mevAnalysis: MevAnalysis;
+}
+
+interface PenaltyFactor {
+  weight: number;
+  threshold: number;
+  saturation: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentage(part: number, total: number): number | null {
+  return total > 0 ? (part / total) * 100 : null;
+}
+
+// Deduct up to `weight` points, scaling linearly between the factor's threshold and saturation
+function penalty(
+  name: string,
+  value: number | null,
+  unit: string,
+  factor: PenaltyFactor,
+  describe: (value: number) => string,
+  unmeasured: string
+): ScoreFactor {
+  if (value === null) {
+    return { name, value: null, unit, weight: factor.weight, points: 0, explanation: `${unmeasured}; no points deducted` };
+  }
+
+  const severity = Math.min(1, Math.max(0, (value - factor.threshold) / (factor.saturation - factor.threshold)));
+  const points = -factor.weight * severity;
+  return {
+    name,
+    value: round(value),
+    unit,
+    weight: factor.weight,
+    points: round(points),
+    explanation: `${describe(value)}; penalties start above ${factor.threshold} ${unit} and reach -${factor.weight} at ${factor.saturation} ${unit}`,
+  };
+}
+
+// Score a set of swaps with a profile: every configured factor adds or deducts points from the base
+// score, and the breakdown lists each factor's measured value and contribution.
+export function calculateEfficiencyScore(profile: { name: string; profile: ScoringProfile }, inputs: ScoringInputs): ScoreBreakdown {
+  const { factors: config, baseScore, description } = profile.profile;
+  const { transactions, comparisons, mevAnalysis } = inputs;
+  const factors: ScoreFactor[] = [];
+
+  if (config.gasEfficiency) {
+    factors.push(penalty(
+      'gasEfficiency',
+      percentage(Math.max(0, inputs.gasSavingsPotential), inputs.totalGasSpent),
+      '%',
+      config.gasEfficiency,
+      value => `The comparison routes would have saved ${value.toFixed(1)}% of gas spent`,
+      'No gas was spent'
+    ));
+  }
+
+  if (config.slippage) {
+    factors.push(penalty(
+      'slippage',
+      inputs.averageSlippageBps !== null ? Math.max(0, inputs.averageSlippageBps) : null,
+      'bps',
+      config.slippage,
+      value => `Average slippage versus the market was ${value.toFixed(1)} bps`,
+      'Slippage could not be measured'
+    ));
+  }
+
+  if (config.outdatedVenues) {
+    const venues = config.outdatedVenues.venues;
+    const outdated = transactions.filter(tx => venues.some(venue => tx.dex.includes(venue))).length;
+    factors.push(penalty(
+      'outdatedVenues',
+      percentage(outdated, transactions.length),
+      '%',
+      config.outdatedVenues,
+      value => `${outdated} swaps (${value.toFixed(1)}%) used outdated venues (${venues.join(', ')})`,
+      'No swaps to check'
+    ));
+  }
+
+  if (config.suboptimalRoutes) {
+    const suboptimal = comparisons.filter(comparison => comparison.gasDifference > 0).length;
+    factors.push(penalty(
+      'suboptimalRoutes',
+      percentage(suboptimal, comparisons.length),
+      '%',
+      config.suboptimalRoutes,
+      value => `${suboptimal} of ${comparisons.length} compared swaps (${value.toFixed(1)}%) used more gas than the comparison route`,
+      'No swaps could be compared'
+    ));
+  }
+
+  if (config.mevExposure) {
+    factors.push(penalty(
+      'mevExposure',
+      percentage(mevAnalysis.sandwiched, mevAnalysis.swapsAnalyzed),
+      '%',
+      config.mevExposure,
+      value => `${mevAnalysis.sandwiched} of ${mevAnalysis.swapsAnalyzed} inspected swaps (${value.toFixed(1)}%) were sandwiched`,
+      'No swaps were inspected for MEV'
+    ));
+  }
+
+  if (config.venueFocus) {
+    const { weight, maxVenues, minSwaps } = config.venueFocus;
+    const uniqueVenues = new Set(transactions.map(tx => tx.dex)).size;
+    const applies = uniqueVenues <= maxVenues && transactions.length >= minSwaps;
+    factors.push({
+      name: 'venueFocus',
+      value: uniqueVenues,
+      unit: 'venues',
+      weight,
+      points: applies ? weight : 0,
+      explanation: `${transactions.length} swaps across ${uniqueVenues} venues; the bonus applies to at least ${minSwaps} swaps on at most ${maxVenues} venues`,
+    });
+  }
+
+  const total = baseScore + factors.reduce((sum, factor) => sum + factor.points, 0);
+
+  return {
+    profile: profile.name,
+    description,
+    baseScore,
+    score: Math.round(Math.max(0, Math.min(100, total))),
+    factors,
+  };
+}
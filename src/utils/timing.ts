@@ -0,0 +1,263 @@
+import { getChain } from './chains.js';
+import { getRpcUrl, rpcCall } from './rpc.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { swapKey } from './normalize.js';
+import { attachGasCosts, formatNativeAmounts, getBaseFees, weiToGwei, weiToNative, FEE_HISTORY_MAX_BLOCKS } from './gas.js';
+import type { GasTimingAnalysis, GasTimingBucket, GasTimingSwap, GasTimingWindow, SwapTransaction } from '../types/index.js';
+
+export const DEFAULT_TIMING_WINDOW_HOURS = 6;
+
+const TIMING_CONCURRENCY = 4;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Average percentiles past these bounds say the wallet habitually trades into expensive or cheap blocks
+const EXPENSIVE_PERCENTILE = 60;
+const CHEAP_PERCENTILE = 40;
+
+interface HourSample {
+  baseFees: number[];
+  oldestBlock: number;
+  median: number;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// L2 base fees are fractions of a gwei, so keep more precision than for USD
+function roundGwei(wei: number): number {
+  return round(weiToGwei(wei), 4);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// e.g. "Mon 14:00 UTC"
+export function hourOfWeekSlot(date: Date): string {
+  return `${DAY_NAMES[date.getUTCDay()]} ${String(date.getUTCHours()).padStart(2, '0')}:00 UTC`;
+}
+
+// Blocks mined in an hour; on fast chains only a block range centered in the hour is sampled
+function hourSampleSize(chainId: number): { blocksPerHour: number; sampleBlocks: number } {
+  const blocksPerHour = Math.round(3600 / getChain(chainId).blockTimeSeconds);
+  return { blocksPerHour, sampleBlocks: Math.min(blocksPerHour, FEE_HISTORY_MAX_BLOCKS) };
+}
+
+// Base fees of the sampled blocks around `centerBlock`, shifted back when the range would reach past the chain head
+async function sampleHour(chainId: number, centerBlock: number, latestBlock: number): Promise<HourSample | null> {
+  const { sampleBlocks } = hourSampleSize(chainId);
+  const oldestBlock = Math.max(0, Math.min(centerBlock - Math.floor(sampleBlocks / 2), latestBlock - sampleBlocks + 1));
+
+  const baseFees = await getBaseFees(chainId, oldestBlock, sampleBlocks);
+  if (baseFees.length === 0) return null;
+  return { baseFees, oldestBlock, median: median(baseFees) };
+}
+
+// Compare the base fee a swap paid with the blocks of its own hour, then find the hour within
+// `windowHours` after it with the lowest median base fee. The swap could have saved the base fee it
+// paid above that median; the priority tip is assumed to be the same whenever it is sent.
+async function evaluateSwap(tx: SwapTransaction, windowHours: number, latestBlock: number): Promise<GasTimingSwap | null> {
+  if (tx.block_number === undefined) return null;
+  const { blocksPerHour, sampleBlocks } = hourSampleSize(tx.chain_id);
+
+  const ownHour = await sampleHour(tx.chain_id, tx.block_number, latestBlock);
+  if (!ownHour) return null;
+
+  const baseFee = tx.base_fee_per_gas ?? ownHour.baseFees[tx.block_number - ownHour.oldestBlock];
+  if (baseFee === undefined) return null;
+
+  let cheapest = { hoursAfter: 0, median: ownHour.median };
+  for (let hoursAfter = 1; hoursAfter <= windowHours; hoursAfter++) {
+    // Hours that are not fully mined yet cannot be compared
+    const centerBlock = tx.block_number + hoursAfter * blocksPerHour;
+    if (centerBlock + Math.floor(sampleBlocks / 2) > latestBlock) break;
+
+    const sample = await sampleHour(tx.chain_id, centerBlock, latestBlock);
+    if (!sample) continue;
+    if (sample.median < cheapest.median) {
+      cheapest = { hoursAfter, median: sample.median };
+    }
+  }
+
+  const executedAt = new Date(tx.timestamp);
+  const cheapestWindow: GasTimingWindow = {
+    hoursAfter: cheapest.hoursAfter,
+    startsAt: new Date(executedAt.getTime() + cheapest.hoursAfter * HOUR_MS).toISOString(),
+    medianBaseFeeGwei: roundGwei(cheapest.median),
+  };
+
+  const potentialSavingsNative = weiToNative(tx.gas_used * Math.max(0, baseFee - cheapest.median));
+  const nativePriceUSD = tx.gas_cost?.nativePriceUSD ?? null;
+
+  return {
+    txHash: tx.hash,
+    chainId: tx.chain_id,
+    leg: tx.leg,
+    timestamp: tx.timestamp,
+    slot: hourOfWeekSlot(executedAt),
+    gasPriceGwei: roundGwei(tx.gas_price),
+    baseFeeGwei: roundGwei(baseFee),
+    hourMedianBaseFeeGwei: roundGwei(ownHour.median),
+    baseFeePercentile: round(ownHour.baseFees.filter(fee => fee < baseFee).length / ownHour.baseFees.length * 100, 1),
+    cheapestWindow,
+    nativeToken: getChain(tx.chain_id).nativeSymbol,
+    potentialSavingsNative,
+    potentialSavingsUSD: nativePriceUSD !== null ? round(potentialSavingsNative * nativePriceUSD) : null,
+  };
+}
+
+// Group every swap by its UTC hour of the week; base fee figures only cover swaps that could be evaluated
+function bucketSwaps(transactions: SwapTransaction[], evaluated: Map<string, GasTimingSwap>): GasTimingBucket[] {
+  const groups = new Map<string, { dayOfWeek: number; hour: number; transactions: SwapTransaction[] }>();
+  for (const tx of transactions) {
+    const date = new Date(tx.timestamp);
+    const key = hourOfWeekSlot(date);
+    const group = groups.get(key) ?? { dayOfWeek: date.getUTCDay(), hour: date.getUTCHours(), transactions: [] };
+    group.transactions.push(tx);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([slot, group]) => {
+      const swaps = group.transactions
+        .map(tx => evaluated.get(swapKey(tx.chain_id, tx.hash, tx.leg)))
+        .filter((swap): swap is GasTimingSwap => swap !== undefined);
+      const averageBaseFee = average(swaps.map(swap => swap.baseFeeGwei));
+      const averagePercentile = average(swaps.map(swap => swap.baseFeePercentile));
+
+      return {
+        dayOfWeek: group.dayOfWeek,
+        hour: group.hour,
+        slot,
+        swaps: group.transactions.length,
+        averageGasPriceGwei: roundGwei(average(group.transactions.map(tx => tx.gas_price))!),
+        averageBaseFeeGwei: averageBaseFee !== null ? round(averageBaseFee, 4) : null,
+        averageBaseFeePercentile: averagePercentile !== null ? round(averagePercentile, 1) : null,
+        potentialSavingsUSD: round(swaps.reduce((sum, swap) => sum + (swap.potentialSavingsUSD ?? 0), 0)),
+      };
+    })
+    // Monday first, like a calendar week
+    .sort((a, b) => (a.dayOfWeek + 6) % 7 - (b.dayOfWeek + 6) % 7 || a.hour - b.hour);
+}
+
+function buildAdvice(
+  transactions: SwapTransaction[],
+  analysis: Omit<GasTimingAnalysis, 'advice'>
+): string[] {
+  if (transactions.length === 0) return ['No swaps found to analyze'];
+
+  if (analysis.swapsAnalyzed === 0) {
+    const rpcVariables = Array.from(new Set(transactions.map(tx => getChain(tx.chain_id).rpcUrlEnv)));
+    return analysis.source
+      ? ['Base fee history could not be read for any swap (swaps need a block number); only the gas prices paid are bucketed']
+      : [`Set ${rpcVariables.join(' / ')} to compare the gas you paid with the base fees around each swap; only the gas prices paid are bucketed`];
+  }
+
+  const advice: string[] = [];
+  const percentile = analysis.averageBaseFeePercentile;
+  if (percentile !== null && percentile >= EXPENSIVE_PERCENTILE) {
+    advice.push(`Your swaps paid a higher base fee than ${percentile.toFixed(0)}% of the blocks in the same hour on average; set a lower max fee and let the transaction wait a few blocks instead of sending it during spikes`);
+  } else if (percentile !== null && percentile <= CHEAP_PERCENTILE) {
+    advice.push(`Your swaps usually land in cheap blocks (base fee percentile ${percentile.toFixed(0)} within their hour); timing within the hour is already good`);
+  }
+
+  const savingSwaps = analysis.swaps.filter(swap => swap.potentialSavingsNative > 0);
+  if (savingSwaps.length > 0) {
+    const hoursAfter = average(savingSwaps.map(swap => swap.cheapestWindow.hoursAfter))!;
+    const savingsUSD = analysis.potentialSavingsUSD > 0 ? ` (~$${analysis.potentialSavingsUSD.toFixed(2)}${analysis.savingsPercentage !== null ? `, ${analysis.savingsPercentage.toFixed(1)}% of gas spent` : ''})` : '';
+    advice.push(`Waiting up to ${analysis.windowHours} hours for the cheapest hour would have saved ${formatNativeAmounts(analysis.potentialSavingsNative)}${savingsUSD} on ${savingSwaps.length} of ${analysis.swapsAnalyzed} swaps; the cheapest hour came ${hoursAfter.toFixed(1)} hours after the swap on average`);
+
+    // A cheap hour of the day that keeps recurring is worth scheduling non-urgent swaps around
+    const cheapHours = new Map<number, number>();
+    for (const swap of savingSwaps) {
+      const hour = new Date(swap.cheapestWindow.startsAt).getUTCHours();
+      cheapHours.set(hour, (cheapHours.get(hour) ?? 0) + 1);
+    }
+    const [bestHour, occurrences] = Array.from(cheapHours.entries()).sort(([, a], [, b]) => b - a)[0];
+    if (occurrences >= 2) {
+      advice.push(`The cheapest hour most often started around ${String(bestHour).padStart(2, '0')}:00 UTC (${occurrences} swaps); schedule non-urgent swaps for then`);
+    }
+  } else {
+    advice.push(`None of the ${analysis.swapsAnalyzed} analyzed swaps would have been cheaper within ${analysis.windowHours} hours; keep executing when you need to`);
+  }
+
+  const measuredBuckets = analysis.buckets
+    .filter(bucket => bucket.averageBaseFeeGwei !== null)
+    .sort((a, b) => b.averageBaseFeeGwei! - a.averageBaseFeeGwei!);
+  if (measuredBuckets.length >= 2) {
+    const costliest = measuredBuckets[0];
+    const cheapest = measuredBuckets[measuredBuckets.length - 1];
+    advice.push(`Your ${costliest.slot} swaps paid the highest base fees (${costliest.averageBaseFeeGwei} gwei on average) versus ${cheapest.averageBaseFeeGwei} gwei for ${cheapest.slot}`);
+  }
+
+  return advice;
+}
+
+// Bucket swaps by hour of the week and measure the base fee each one paid against the chain's base fee
+// distribution around it. Reading fee history needs the chain's JSON-RPC endpoint; swaps without one,
+// without a block number or whose history cannot be read are counted as skipped.
+export async function analyzeGasTiming(
+  transactions: SwapTransaction[],
+  windowHours: number = DEFAULT_TIMING_WINDOW_HOURS
+): Promise<GasTimingAnalysis> {
+  await attachGasCosts(transactions);
+
+  // Hours after a recent swap may not be mined yet, so look up each chain's head once
+  const latestBlocks = new Map<number, Promise<number>>();
+  const latestBlock = (chainId: number) => {
+    if (!latestBlocks.has(chainId)) {
+      latestBlocks.set(chainId, rpcCall<string>(chainId, 'eth_blockNumber').then(block => parseInt(block, 16)));
+    }
+    return latestBlocks.get(chainId)!;
+  };
+
+  const hasRpc = transactions.some(tx => getRpcUrl(tx.chain_id));
+  const results = await mapWithConcurrency(transactions, TIMING_CONCURRENCY, async tx => {
+    try {
+      if (!getRpcUrl(tx.chain_id)) return null;
+      return await evaluateSwap(tx, windowHours, await latestBlock(tx.chain_id));
+    } catch (error) {
+      console.error(`Error analyzing gas timing for transaction ${tx.hash}:`, error);
+      return null;
+    }
+  });
+
+  const swaps = results.filter((swap): swap is GasTimingSwap => swap !== null);
+  const evaluated = new Map(swaps.map(swap => [swapKey(swap.chainId, swap.txHash, swap.leg), swap]));
+
+  const savingsNative = new Map<string, number>();
+  for (const swap of swaps) {
+    savingsNative.set(swap.nativeToken, (savingsNative.get(swap.nativeToken) ?? 0) + swap.potentialSavingsNative);
+  }
+
+  const totalGasCostUSD = transactions
+    .filter(tx => evaluated.has(swapKey(tx.chain_id, tx.hash, tx.leg)))
+    .reduce((sum, tx) => sum + (tx.gas_cost?.costUSD ?? 0), 0);
+  const potentialSavingsUSD = swaps.reduce((sum, swap) => sum + (swap.potentialSavingsUSD ?? 0), 0);
+  const averagePercentile = average(swaps.map(swap => swap.baseFeePercentile));
+
+  const analysis: Omit<GasTimingAnalysis, 'advice'> = {
+    source: hasRpc ? 'rpc' : null,
+    windowHours,
+    swapsAnalyzed: swaps.length,
+    swapsSkipped: transactions.length - swaps.length,
+    averageBaseFeePercentile: averagePercentile !== null ? round(averagePercentile, 1) : null,
+    totalGasCostUSD: round(totalGasCostUSD),
+    potentialSavingsUSD: round(potentialSavingsUSD),
+    savingsPercentage: totalGasCostUSD > 0 ? round(potentialSavingsUSD / totalGasCostUSD * 100) : null,
+    potentialSavingsNative: Array.from(savingsNative.entries()).map(([nativeToken, amount]) => ({ nativeToken, amount })),
+    buckets: bucketSwaps(transactions, evaluated),
+    swaps,
+  };
+
+  return { ...analysis, advice: buildAdvice(transactions, analysis) };
+}
@@ -0,0 +1,181 @@
+import { readFileSync } from 'node:fs';
+import { DEFAULT_TOKEN_LIST } from '../data/tokenlist.js';
+import { DEFAULT_CHAIN_ID, getChain } from './chains.js';
+import { decodeAbiString, decodeUint256 } from './abi.js';
+import { ethCall, getRpcUrl } from './rpc.js';
+import type { TokenInfo, TokenList } from '../types/index.js';
+
+// Pseudo-address used by 1inch and most aggregators for the chain's native token
+export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// ERC-20 function selectors
+const DECIMALS_SELECTOR = '0x313ce567';
+const SYMBOL_SELECTOR = '0x95d89b41';
+
+const tokensByAddress = new Map<string, TokenInfo>();
+const tokensBySymbol = new Map<string, TokenInfo>();
+const onChainLookups = new Map<string, Promise<TokenInfo | null>>();
+let registryLoaded = false;
+
+function addressKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function symbolKey(chainId: number, symbol: string): string {
+  return `${chainId}:${symbol.toUpperCase()}`;
+}
+
+function registerToken(token: TokenInfo): void {
+  tokensByAddress.set(addressKey(token.chainId, token.address), token);
+  tokensBySymbol.set(symbolKey(token.chainId, token.symbol), token);
+}
+
+// Load a Uniswap-style token list from disk
+export function loadTokenListFile(path: string): TokenList {
+  const list = JSON.parse(readFileSync(path, 'utf8')) as TokenList;
+  if (!Array.isArray(list.tokens)) {
+    throw new Error(`Token list at ${path} has no tokens array`);
+  }
+  return list;
+}
+
+// Populate the registry from the bundled list, then the local TOKEN_LIST_PATH list (which wins on conflicts)
+function ensureRegistryLoaded(): void {
+  if (registryLoaded) return;
+  registryLoaded = true;
+
+  DEFAULT_TOKEN_LIST.tokens.forEach(registerToken);
+
+  const localListPath = process.env.TOKEN_LIST_PATH;
+  if (localListPath) {
+    try {
+      loadTokenListFile(localListPath).tokens.forEach(registerToken);
+    } catch (error) {
+      console.error(`Error loading token list from ${localListPath}:`, error);
+    }
+  }
+}
+
+function nativeToken(chainId: number): TokenInfo {
+  const chain = getChain(chainId);
+  return {
+    chainId,
+    address: NATIVE_TOKEN_ADDRESS,
+    symbol: chain.nativeSymbol,
+    name: chain.nativeSymbol,
+    decimals: 18,
+  };
+}
+
+export function isNativeToken(address: string): boolean {
+  return address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+}
+
+// Synchronous lookup against the loaded token lists only
+export function getKnownToken(address: string, chainId: number = DEFAULT_CHAIN_ID): TokenInfo | undefined {
+  ensureRegistryLoaded();
+  if (isNativeToken(address)) return nativeToken(chainId);
+  return tokensByAddress.get(addressKey(chainId, address));
+}
+
+export function getTokenBySymbol(symbol: string, chainId: number = DEFAULT_CHAIN_ID): TokenInfo | undefined {
+  ensureRegistryLoaded();
+  if (symbol.toUpperCase() === getChain(chainId).nativeSymbol) return nativeToken(chainId);
+  return tokensBySymbol.get(symbolKey(chainId, symbol));
+}
+
+// Get token address from symbol on a given chain
+export function getTokenAddress(symbol: string, chainId: number = DEFAULT_CHAIN_ID): string {
+  return getTokenBySymbol(symbol, chainId)?.address || symbol;
+}
+
+// Read decimals() and symbol() from the token contract over JSON-RPC
+async function lookupTokenOnChain(address: string, chainId: number): Promise<TokenInfo | null> {
+  if (!getRpcUrl(chainId)) return null;
+
+  try {
+    const decimalsResult = await ethCall(chainId, address, DECIMALS_SELECTOR);
+    if (!decimalsResult || decimalsResult === '0x') return null;
+
+    let symbol = 'UNKNOWN';
+    try {
+      symbol = decodeAbiString(await ethCall(chainId, address, SYMBOL_SELECTOR)) || symbol;
+    } catch (error) {
+      console.warn(`Could not read symbol() for token ${address} on chain ${chainId}`);
+    }
+
+    const token: TokenInfo = {
+      chainId,
+      address,
+      symbol,
+      decimals: Number(decodeUint256(decimalsResult.slice(0, 66))),
+    };
+    registerToken(token);
+    return token;
+  } catch (error) {
+    console.error(`Error reading ERC-20 metadata for ${address} on chain ${chainId}:`, error);
+    return null;
+  }
+}
+
+// Resolve address → symbol/decimals/logo, falling back to an on-chain ERC-20 lookup for unknown tokens
+export async function resolveToken(address: string, chainId: number = DEFAULT_CHAIN_ID): Promise<TokenInfo | null> {
+  const known = getKnownToken(address, chainId);
+  if (known) return known;
+
+  const key = addressKey(chainId, address);
+  if (!onChainLookups.has(key)) {
+    onChainLookups.set(key, lookupTokenOnChain(address, chainId));
+  }
+
+  // Misses and failures are retried on the next call; successful lookups are registered as known tokens
+  const lookup = onChainLookups.get(key)!;
+  lookup.then(token => { if (!token) onChainLookups.delete(key); }, () => onChainLookups.delete(key));
+  return lookup;
+}
+
+// Like resolveToken, but unknown decimals are an error rather than a silent 18
+export async function requireTokenDecimals(address: string, chainId: number = DEFAULT_CHAIN_ID): Promise<number> {
+  const token = await resolveToken(address, chainId);
+  if (!token) {
+    throw new Error(`Unknown decimals for token ${address} on chain ${chainId}`);
+  }
+  return token.decimals;
+}
+
+// Rewrite exponential notation ("1.5e+21") as a plain decimal string; other text is returned as is
+function expandExponent(text: string): string {
+  const match = text.match(/^(-?)(\d+)(?:\.(\d*))?e([+-]?\d+)$/i);
+  if (!match) return text;
+
+  const [, sign, whole, fraction = '', exponent] = match;
+  const digits = whole + fraction;
+  const point = whole.length + parseInt(exponent, 10);
+  if (point >= digits.length) return `${sign}${digits.padEnd(point, '0')}`;
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+// Convert a human-readable amount into integer base units (wei for 18-decimal tokens). toFixed
+// switches to exponential notation from 1e21, so large amounts are expanded from their shortest form.
+export function toBaseUnits(amount: number | string, decimals: number): string {
+  const text = typeof amount === 'number'
+    ? (Math.abs(amount) >= 1e21 ? expandExponent(String(amount)) : amount.toFixed(Math.min(decimals, 100)))
+    : expandExponent(amount.trim());
+  const [whole, fraction = ''] = text.split('.');
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, '0');
+  const baseUnits = BigInt(`${whole || '0'}${paddedFraction}`);
+  return baseUnits.toString();
+}
+
+// Convert integer base units into a human-readable amount
+export function fromBaseUnits(amount: string | bigint, decimals: number): number {
+  const value = BigInt(amount);
+  const negative = value < 0n;
+  const absolute = negative ? -value : value;
+  const divisor = 10n ** BigInt(decimals);
+  const whole = absolute / divisor;
+  const fraction = (absolute % divisor).toString().padStart(decimals, '0');
+  const result = parseFloat(decimals > 0 ? `${whole}.${fraction}` : whole.toString());
+  return negative ? -result : result;
+}
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { hasValidChecksum, isEnsName, isHexAddress, toChecksumAddress } from './address.js';
+import { parseChainIds } from './chains.js';
+import { lookupEnsName, resolveEnsName } from './ens.js';
+import { REPORT_FORMATS } from '../formatters/index.js';
+import { AGGREGATOR_NAMES } from '../aggregators/index.js';
+import { RECOMMENDATION_RULE_IDS } from '../recommendations/index.js';
+import type { ResolvedWallet, SwapRange } from '../types/index.js';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class EnsResolutionError extends Error {
+  constructor(public readonly ensName: string, message: string) {
+    super(message);
+    this.name = 'EnsResolutionError';
+  }
+}
+
+// Per-call overrides of the recommendation rules enabled in the config file
+const recommendationRuleFields = {
+  enabledRules: z.array(z.enum(RECOMMENDATION_RULE_IDS)).optional(),
+  disabledRules: z.array(z.enum(RECOMMENDATION_RULE_IDS)).optional(),
+};
+
+// A hex address with a valid EIP-55 checksum, or an ENS name to be resolved later
+const walletInputSchema = z
+  .string({ required_error: 'walletAddress is required' })
+  .trim()
+  .superRefine((value, ctx) => {
+    if (isEnsName(value)) return;
+    if (!isHexAddress(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a 0x-prefixed 20-byte hex address or an ENS name' });
+    } else if (!hasValidChecksum(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Address has an invalid EIP-55 checksum' });
+    }
+  });
+
+const chainIdSchema = z
+  .union([z.number().int(), z.string(), z.array(z.union([z.number().int(), z.string()]))])
+  .optional()
+  .transform((value, ctx) => {
+    try {
+      return parseChainIds(value);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : 'Invalid chainId' });
+      return z.NEVER;
+    }
+  });
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// ISO 8601 date or date-time, normalized to an ISO timestamp; a bare `to` date covers the whole day
+function dateBoundSchema(endOfDay: boolean) {
+  return z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      const dateOnly = DATE_ONLY.test(value);
+      const time = Date.parse(dateOnly ? `${value}T00:00:00Z` : value);
+      if (isNaN(time)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be an ISO 8601 date or date-time' });
+        return z.NEVER;
+      }
+      return new Date(dateOnly && endOfDay ? time + 86400000 - 1 : time).toISOString();
+    })
+    .optional();
+}
+
+const rangeFields = {
+  from: dateBoundSchema(false),
+  to: dateBoundSchema(true),
+  fromBlock: z.number().int().min(0).optional(),
+  toBlock: z.number().int().min(0).optional(),
+};
+
+function checkRange(value: SwapRange & { chainId: number[] }, ctx: z.RefinementCtx): void {
+  if (value.from !== undefined && value.to !== undefined && value.from > value.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'to must not be before from' });
+  }
+  if (value.fromBlock !== undefined && value.toBlock !== undefined && value.fromBlock > value.toBlock) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toBlock'], message: 'toBlock must not be below fromBlock' });
+  }
+  if ((value.fromBlock !== undefined || value.toBlock !== undefined) && value.chainId.length > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fromBlock'], message: 'Block ranges apply to a single chain; pass one chainId' });
+  }
+}
+
+export const TOOL_SCHEMAS = {
+  get_user_transactions: z.object({
+    walletAddress: walletInputSchema,
+    limit: z.number().int().min(1).max(10000).default(10),
+    chainId: chainIdSchema,
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  compare_with_1inch: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    limit: z.number().int().min(1).max(1000).optional(),
+    ...recommendationRuleFields,
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  compare_with_aggregators: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    limit: z.number().int().min(1).max(1000).optional(),
+    aggregators: z.array(z.enum(AGGREGATOR_NAMES)).min(1).optional(),
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  generate_swap_report: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    limit: z.number().int().min(1).max(10000).optional(),
+    comparisonLimit: z.number().int().min(1).max(1000).optional(),
+    format: z.enum(REPORT_FORMATS).default('json'),
+    scoringProfile: z.string().trim().min(1).optional(),
+    ...recommendationRuleFields,
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  generate_portfolio_report: z.object({
+    walletAddresses: z.array(walletInputSchema).min(1).max(50).optional(),
+    group: z.string().trim().min(1).optional(),
+    chainId: chainIdSchema,
+    limit: z.number().int().min(1).max(10000).optional(),
+    ...rangeFields,
+  }).strict().superRefine(checkRange).refine(value => (value.walletAddresses === undefined) !== (value.group === undefined), {
+    message: 'Provide either walletAddresses or group, but not both',
+  }),
+  calculate_pnl: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    method: z.enum(['fifo', 'lifo', 'average']).default('fifo'),
+    limit: z.number().int().min(1).max(10000).optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  analyze_gas_timing: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    windowHours: z.number().int().min(1).max(48).optional(),
+    limit: z.number().int().min(1).max(1000).optional(),
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  analyze_gas_overhead: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    limit: z.number().int().min(1).max(1000).optional(),
+    ...rangeFields,
+  }).strict().superRefine(checkRange),
+  watch_wallet: z.object({
+    walletAddress: walletInputSchema,
+    chainId: chainIdSchema,
+    minLossUSD: z.number().min(0).optional(),
+    maxSlippageBps: z.number().min(0).max(10000).optional(),
+  }).strict(),
+  unwatch_wallet: z.object({
+    walletAddress: walletInputSchema,
+  }).strict(),
+  manage_cache: z.object({
+    action: z.enum(['stats', 'clear', 'prune']).default('stats'),
+    namespace: z.enum(['swaps', 'quotes', 'prices']).optional(),
+  }).strict(),
+};
+
+export type ToolName = keyof typeof TOOL_SCHEMAS;
+export type ToolArguments<T extends ToolName> = z.infer<typeof TOOL_SCHEMAS[T]>;
+
+function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+// Validate raw tool arguments against the tool's schema, returning typed and defaulted values
+export function validateToolArguments<T extends ToolName>(name: T, args: unknown): ToolArguments<T> {
+  const result = TOOL_SCHEMAS[name].safeParse(args ?? {});
+  if (!result.success) {
+    const issues = toValidationIssues(result.error);
+    throw new ValidationError(
+      `Invalid arguments for ${name}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+  return result.data as ToolArguments<T>;
+}
+
+// Pull the optional from/to/fromBlock/toBlock arguments into a SwapRange
+export function rangeFromArguments(args: SwapRange): SwapRange | undefined {
+  const { from, to, fromBlock, toBlock } = args;
+  if (from === undefined && to === undefined && fromBlock === undefined && toBlock === undefined) {
+    return undefined;
+  }
+  return { from, to, fromBlock, toBlock };
+}
+
+// Validate a single wallet input (hex address or ENS name) outside of a tool call, e.g. from a resource URI
+export function validateWalletInput(value: string, path: string = 'walletAddress'): string {
+  const result = walletInputSchema.safeParse(value);
+  if (!result.success) {
+    const issues = toValidationIssues(result.error).map(issue => ({ ...issue, path }));
+    throw new ValidationError(`Invalid ${path}: ${issues.map(issue => issue.message).join('; ')}`, issues);
+  }
+  return result.data;
+}
+
+// Guard used by the tool functions themselves when called directly
+export function assertWalletAddress(walletAddress: string): void {
+  const result = walletInputSchema.safeParse(walletAddress);
+  if (!result.success || !isHexAddress(walletAddress)) {
+    throw new ValidationError(
+      `Invalid wallet address: ${walletAddress}`,
+      result.success ? [{ path: 'walletAddress', message: 'ENS names must be resolved before analysis' }] : toValidationIssues(result.error)
+    );
+  }
+}
+
+// Turn a validated wallet input into a checksummed address, resolving ENS names. Plain addresses
+// are reverse-resolved to their primary name when possible; a failed reverse lookup only leaves the
+// name out.
+export async function resolveWalletInput(input: string): Promise<ResolvedWallet> {
+  if (!isEnsName(input)) {
+    const address = toChecksumAddress(input);
+    const ensName = await lookupEnsName(address).catch(() => null);
+    return ensName ? { address, ensName } : { address };
+  }
+
+  let address: string | null;
+  try {
+    address = await resolveEnsName(input);
+  } catch (error) {
+    throw new EnsResolutionError(input, `Failed to resolve ENS name ${input}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!address) {
+    throw new EnsResolutionError(input, `ENS name ${input} does not resolve to an address`);
+  }
+
+  return { address, ensName: input.toLowerCase() };
+}
@@ -0,0 +1,149 @@
+import { EventEmitter } from 'node:events';
+import { compareWithOneInch } from '../tools/comparison.js';
+import { fetchSwapHistory } from '../tools/transactions.js';
+import { getChain } from '../utils/chains.js';
+import { getConfig } from '../utils/config.js';
+import { swapKey } from '../utils/normalize.js';
+import { getStoredWatch, listStoredWatches, saveWatch, type StoredWatch } from './store.js';
+import type { SwapComparison, SwapTransaction, WatchAlert } from '../types/index.js';
+
+// Newest swaps fetched per poll; more new swaps than this between two polls are not all evaluated
+const WATCH_FETCH_LIMIT = 25;
+
+const watchEvents = new EventEmitter();
+let pollTimer: NodeJS.Timeout | undefined;
+let polling = false;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getPollIntervalSeconds(): number {
+  return getConfig().watch.pollIntervalSeconds;
+}
+
+// Listeners receive the id of the client that owns the watch, so alerts only reach that client
+export function onWatchAlert(listener: (alert: WatchAlert, clientId: string) => void): () => void {
+  watchEvents.on('alert', listener);
+  return () => watchEvents.off('alert', listener);
+}
+
+// Output missed versus the counterfactual route (valued at the swap's own output price) plus extra gas.
+// Low-confidence counterfactuals are current-time quotes and mostly reflect price movement, so they are left out.
+function estimateLossUSD(tx: SwapTransaction, comparison: SwapComparison): number | null {
+  const outputPriceUSD = tx.usd_value && tx.to_amount > 0 ? tx.usd_value / tx.to_amount : null;
+  const routeLossUSD = outputPriceUSD !== null && comparison.counterfactual.confidence !== 'low'
+    ? Math.max(0, comparison.optimalAmountOut - comparison.actualAmountOut) * outputPriceUSD
+    : null;
+  const gasLossUSD = comparison.gasDifferenceUSD !== null ? Math.max(0, comparison.gasDifferenceUSD) : null;
+
+  if (routeLossUSD === null && gasLossUSD === null) return null;
+  return round((routeLossUSD ?? 0) + (gasLossUSD ?? 0));
+}
+
+function evaluateSwap(watch: StoredWatch, tx: SwapTransaction, comparison: SwapComparison): WatchAlert | null {
+  const { minLossUSD, maxSlippageBps } = watch.thresholds;
+  const lossUSD = estimateLossUSD(tx, comparison);
+  const reasons: string[] = [];
+
+  if (lossUSD !== null && lossUSD >= minLossUSD) {
+    reasons.push(`~$${lossUSD.toFixed(2)} lost versus ${comparison.optimalRoute} (threshold $${minLossUSD})`);
+  }
+  if (comparison.slippageBps !== null && comparison.slippageBps >= maxSlippageBps) {
+    reasons.push(`${comparison.slippageBps.toFixed(0)} bps slippage versus the market (threshold ${maxSlippageBps} bps)`);
+  }
+  if (reasons.length === 0) return null;
+
+  const pair = `${tx.from_token}/${tx.to_token}`;
+  return {
+    wallet: watch.wallet,
+    ensName: watch.ensName,
+    chainId: tx.chain_id,
+    txHash: tx.hash,
+    timestamp: tx.timestamp,
+    pair,
+    actualRoute: comparison.actualRoute,
+    optimalRoute: comparison.optimalRoute,
+    lossUSD,
+    slippageBps: comparison.slippageBps,
+    reasons,
+    message: `${watch.ensName ?? watch.wallet} swapped ${pair} on ${comparison.actualRoute} (${getChain(tx.chain_id).name}, ${tx.hash}): ${reasons.join('; ')}`,
+    comparison,
+  };
+}
+
+// Compare the watch's swaps it has not seen yet and record them as seen. The first check of a
+// watch only records the existing history, so alerts cover swaps made after the watch started.
+export async function checkWatch(watch: StoredWatch): Promise<WatchAlert[]> {
+  const isBaseline = watch.lastCheckedAt === null;
+  // The swaps cache would hide new swaps for up to its TTL, which can be longer than the poll interval
+  const history = await fetchSwapHistory(watch.wallet, WATCH_FETCH_LIMIT, watch.chainIds, undefined, { bypassCache: true });
+  const seen = new Set(watch.seenHashes);
+  const fresh = history.transactions.filter(tx => !seen.has(tx.hash));
+  const alerts: WatchAlert[] = [];
+
+  if (!isBaseline && fresh.length > 0) {
+    const comparison = await compareWithOneInch(watch.wallet, watch.chainIds, { transactions: fresh, limit: fresh.length });
+    const bySwap = new Map(fresh.map(tx => [swapKey(tx.chain_id, tx.hash, tx.leg), tx]));
+    for (const swapComparison of comparison.detailedComparisons) {
+      const tx = bySwap.get(swapKey(swapComparison.chainId, swapComparison.txHash, swapComparison.leg));
+      const alert = tx ? evaluateSwap(watch, tx, swapComparison) : null;
+      if (alert) alerts.push(alert);
+    }
+  }
+
+  // The watch may have been removed or replaced while its swaps were being compared
+  const current = await getStoredWatch(watch.clientId, watch.wallet);
+  if (current ? current !== watch : !isBaseline) return [];
+
+  // History is newest first; the store keeps the most recent hashes at the end
+  watch.seenHashes = [...watch.seenHashes, ...Array.from(new Set(fresh.map(tx => tx.hash))).reverse()];
+  if (!isBaseline) watch.swapsSeen += fresh.length;
+  watch.alertsSent += alerts.length;
+  watch.lastCheckedAt = new Date().toISOString();
+  watch.lastError = null;
+  await saveWatch(watch);
+
+  for (const alert of alerts) {
+    watchEvents.emit('alert', alert, watch.clientId);
+  }
+  return alerts;
+}
+
+// Watches are checked one at a time to stay within the data source's and 1inch's rate limits
+export async function pollWatches(): Promise<void> {
+  if (polling) return;
+  polling = true;
+
+  try {
+    for (const watch of await listStoredWatches()) {
+      try {
+        await checkWatch(watch);
+      } catch (error) {
+        console.error(`Error checking watched wallet ${watch.wallet}:`, error);
+        if ((await getStoredWatch(watch.clientId, watch.wallet)) === watch) {
+          watch.lastError = error instanceof Error ? error.message : 'Unknown error';
+          await saveWatch(watch);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error polling watched wallets:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+// Poll persisted watches right away (catching swaps made while the server was down) and then on an interval
+export function startWatchPolling(): () => void {
+  if (!pollTimer) {
+    void pollWatches();
+    pollTimer = setInterval(() => void pollWatches(), getPollIntervalSeconds() * 1000);
+    pollTimer.unref();
+  }
+
+  return () => {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  };
+}
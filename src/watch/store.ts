@@ -0,0 +1,98 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { WalletWatch } from '../types/index.js';
+
+// The client that registered the watch (see the HTTP transport's client ids) and hashes of swaps
+// already evaluated, so restarts do not alert on the same swap twice
+export interface StoredWatch extends WalletWatch {
+  clientId: string;
+  seenHashes: string[];
+}
+
+interface WatchStoreFile {
+  version: 1;
+  watches: StoredWatch[];
+}
+
+// Only the most recent hashes are needed to tell new swaps from ones already seen
+const MAX_SEEN_HASHES = 500;
+
+// Owner of watches registered over stdio, and of watches stored before owners were recorded
+export const LOCAL_CLIENT_ID = 'local';
+
+let watches: Map<string, StoredWatch> | undefined;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function getWatchStorePath(): string {
+  return process.env.WATCH_STORE_FILE || join(homedir(), '.defi-analyzer', 'watches.json');
+}
+
+// Each client has its own watch per wallet
+function watchKey(clientId: string, walletAddress: string): string {
+  return `${clientId}:${walletAddress.toLowerCase()}`;
+}
+
+async function loadWatches(): Promise<Map<string, StoredWatch>> {
+  if (watches) return watches;
+
+  const path = getWatchStorePath();
+  let stored: StoredWatch[] = [];
+  try {
+    const parsed = JSON.parse(await readFile(path, 'utf8')) as WatchStoreFile;
+    stored = Array.isArray(parsed.watches)
+      ? parsed.watches.map(watch => ({ ...watch, clientId: watch.clientId ?? LOCAL_CLIENT_ID }))
+      : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Failed to read watch store ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  watches = new Map(stored.map(watch => [watchKey(watch.clientId, watch.wallet), watch]));
+  return watches;
+}
+
+// Writes are queued so concurrent updates never interleave; the file is replaced atomically
+async function persist(): Promise<void> {
+  const path = getWatchStorePath();
+  const contents: WatchStoreFile = { version: 1, watches: Array.from((await loadWatches()).values()) };
+
+  pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(contents, null, 2));
+    await rename(`${path}.tmp`, path);
+  });
+  return pendingWrite;
+}
+
+// All watches, or only those registered by one client
+export async function listStoredWatches(clientId?: string): Promise<StoredWatch[]> {
+  const all = Array.from((await loadWatches()).values());
+  return clientId === undefined ? all : all.filter(watch => watch.clientId === clientId);
+}
+
+export async function getStoredWatch(clientId: string, walletAddress: string): Promise<StoredWatch | undefined> {
+  return (await loadWatches()).get(watchKey(clientId, walletAddress));
+}
+
+export async function saveWatch(watch: StoredWatch): Promise<void> {
+  watch.seenHashes = watch.seenHashes.slice(-MAX_SEEN_HASHES);
+  (await loadWatches()).set(watchKey(watch.clientId, watch.wallet), watch);
+  await persist();
+}
+
+export async function deleteWatch(clientId: string, walletAddress: string): Promise<StoredWatch | undefined> {
+  const store = await loadWatches();
+  const existing = store.get(watchKey(clientId, walletAddress));
+  if (!existing) return undefined;
+
+  store.delete(watchKey(clientId, walletAddress));
+  await persist();
+  return existing;
+}
+
+// The public view of a watch, without its bookkeeping
+export function toWalletWatch({ clientId, seenHashes, ...watch }: StoredWatch): WalletWatch {
+  return watch;
+}